@@ -0,0 +1,95 @@
+import { LocalStateService } from "../services/state/LocalStateService";
+import { AccessPolicy, AccessRequest } from "./AccessPolicy";
+
+const request = (fields: Partial<AccessRequest> = {}): AccessRequest => ({
+  userId: 100,
+  username: undefined,
+  chatId: 100,
+  isPrivateChat: true,
+  command: undefined,
+  ...fields,
+});
+
+describe("AccessPolicy", () => {
+  it("matches admins by ID and Telegram username only", () => {
+    const policy = new AccessPolicy({
+      rules: {},
+      adminUsers: ["1", "@owner"],
+    });
+
+    expect(policy.isAdmin(1, undefined)).toBe(true);
+    expect(policy.isAdmin(2, "owner")).toBe(true);
+    expect(policy.isAdmin(2, undefined)).toBe(false);
+    expect(policy.isAdmin(undefined, undefined)).toBe(false);
+  });
+
+  it("refuses everyone but admins when nothing is allowed", async () => {
+    const policy = new AccessPolicy({ rules: {}, adminUsers: ["@owner"] });
+
+    expect(await policy.authorize(request())).toBe("chat");
+    expect(await policy.authorize(request({ username: "owner" }))).toBe(
+      undefined
+    );
+  });
+
+  it("applies blocked users before the allowed chats", async () => {
+    const policy = new AccessPolicy({
+      rules: { allowedChats: ["-10"], blockedUsers: ["@spammer", "7"] },
+    });
+    const groupRequest = request({ chatId: -10, isPrivateChat: false });
+
+    expect(await policy.authorize(groupRequest)).toBe(undefined);
+    expect(
+      await policy.authorize({ ...groupRequest, username: "spammer" })
+    ).toBe("blocked");
+    expect(await policy.authorize({ ...groupRequest, userId: 7 })).toBe(
+      "blocked"
+    );
+  });
+
+  it("limits commands to their users", async () => {
+    const policy = new AccessPolicy({
+      rules: { privateChats: "everyone", commands: { book: ["@alice"] } },
+    });
+
+    expect(await policy.authorize(request({ command: "book" }))).toBe(
+      "command"
+    );
+    expect(
+      await policy.authorize(request({ command: "book", username: "alice" }))
+    ).toBe(undefined);
+    expect(await policy.authorize(request({ command: "help" }))).toBe(
+      undefined
+    );
+  });
+
+  it("applies the rules of the chat type", async () => {
+    const policy = new AccessPolicy({
+      rules: { privateChats: "admins", groupChats: "everyone" },
+    });
+
+    expect(await policy.authorize(request())).toBe("chat");
+    expect(
+      await policy.authorize(request({ chatId: -10, isPrivateChat: false }))
+    ).toBe(undefined);
+  });
+
+  it("keeps the lists changed at runtime in the state service", async () => {
+    const stateService = new LocalStateService();
+    const policy = new AccessPolicy({ rules: {}, stateService });
+    const reloaded = new AccessPolicy({ rules: {}, stateService });
+
+    await policy.allowUser("100");
+    expect(await reloaded.authorize(request())).toBe(undefined);
+
+    await policy.blockUser("100");
+    expect(await reloaded.authorize(request())).toBe("blocked");
+
+    await policy.allowChat("-10");
+    expect(
+      await reloaded.authorize(
+        request({ userId: 5, chatId: -10, isPrivateChat: false })
+      )
+    ).toBe(undefined);
+  });
+});
@@ -0,0 +1,282 @@
+import { ConversationTurn } from "../managers/ConversationTurn";
+import { StateServiceInterface } from "../services/state/StateServiceInterface";
+import { isListedUser } from "../utils/users";
+
+/**
+ * Represents who can use the bot in a type of chat.
+ * - "everyone" - every user who is not blocked
+ * - "allowed" - users in an allowed chat and allowed users
+ * - "admins" - only the admins
+ */
+export type ChatAccess = "everyone" | "allowed" | "admins";
+
+/**
+ * Represents the access rules of the bot. Admins are never restricted.
+ */
+export type AccessRules = {
+  /**
+   * The IDs of the allowed chats, where every user who is not blocked can use the bot.
+   */
+  allowedChats?: string[];
+  /**
+   * The IDs or usernames of the users allowed in any chat.
+   */
+  allowedUsers?: string[];
+  /**
+   * The IDs or usernames of the users who can never use the bot.
+   */
+  blockedUsers?: string[];
+  /**
+   * The IDs or usernames of the only users allowed to use a command, by the command name without the "/".
+   */
+  commands?: Record<string, string[]>;
+  /**
+   * Who can use the bot in private chats. Defaults to "allowed".
+   */
+  privateChats?: ChatAccess;
+  /**
+   * Who can use the bot in groups. Defaults to "allowed".
+   */
+  groupChats?: ChatAccess;
+};
+
+/**
+ * Represents the lists changed at runtime by the admins.
+ */
+export type StoredAccessLists = {
+  allowedChats: string[];
+  allowedUsers: string[];
+  blockedUsers: string[];
+};
+
+/**
+ * Represents the reason why a user is not authorized.
+ * - "blocked" - the user is blocked
+ * - "chat" - the user is not allowed in the chat
+ * - "command" - the user is not allowed to use the command
+ */
+export type AccessDenial = "blocked" | "chat" | "command";
+
+/**
+ * Represents the user, the chat and the command of a request.
+ */
+export type AccessRequest = {
+  userId: number | undefined;
+  /**
+   * The Telegram username of the user. Never the first name, which anyone can change to a listed username.
+   */
+  username: string | undefined;
+  chatId: number;
+  isPrivateChat: boolean;
+  command: string | undefined;
+};
+
+/**
+ * Represents the configuration options for the AccessPolicy.
+ */
+export type AccessPolicyConfig = {
+  /**
+   * The access rules of the bot.
+   */
+  rules: AccessRules;
+  /**
+   * The IDs or usernames of the admins.
+   */
+  adminUsers?: string[];
+  /**
+   * The state service which keeps the lists changed with /allow and /block.
+   * Without it only the configured rules apply.
+   */
+  stateService?: StateServiceInterface<ConversationTurn>;
+};
+
+/**
+ * The ID of the stored access lists.
+ */
+const STORED_ACCESS_LISTS_ID = "access:lists";
+
+/**
+ * Represents a policy which decides who can use the bot, where and which commands.
+ * The configured rules are extended with the lists the admins change at runtime,
+ * which are kept through the state service and shared by all Lambda invocations when DynamoDB is used.
+ */
+export class AccessPolicy {
+  private rules: AccessRules;
+  private adminUsers: string[];
+  private stateService?: StateServiceInterface<ConversationTurn>;
+
+  /**
+   * Creates a new instance of the AccessPolicy class.
+   * @param {AccessPolicyConfig} config - The configuration object for the AccessPolicy.
+   * @returns {AccessPolicy} The newly created AccessPolicy instance.
+   */
+  constructor({ rules, adminUsers, stateService }: AccessPolicyConfig) {
+    this.rules = rules;
+    this.adminUsers = adminUsers || [];
+    this.stateService = stateService;
+    return this;
+  }
+
+  /**
+   * Checks whether the user is an admin.
+   * @param userId - The ID of the user.
+   * @param username - The Telegram username of the user, not the display name.
+   * @returns True if the user is an admin.
+   */
+  public isAdmin(
+    userId: number | undefined,
+    username: string | undefined
+  ): boolean {
+    return isListedUser(this.adminUsers, userId, username);
+  }
+
+  /**
+   * Checks whether the user can use the bot in the chat and the command.
+   * @param request - The user, the chat and the command.
+   * @returns The reason of the denial, or undefined if the request is authorized.
+   */
+  public async authorize({
+    userId,
+    username,
+    chatId,
+    isPrivateChat,
+    command,
+  }: AccessRequest): Promise<AccessDenial | undefined> {
+    if (this.isAdmin(userId, username)) return;
+
+    const stored = await this.getStoredLists();
+    const isListed = (users: string[]) => isListedUser(users, userId, username);
+
+    if (
+      isListed([...(this.rules.blockedUsers || []), ...stored.blockedUsers])
+    ) {
+      return "blocked";
+    }
+
+    const commandUsers = command ? this.rules.commands?.[command] : undefined;
+    if (commandUsers && !isListed(commandUsers)) {
+      return "command";
+    }
+
+    const access =
+      (isPrivateChat ? this.rules.privateChats : this.rules.groupChats) ||
+      "allowed";
+    if (access === "everyone") return;
+    if (access === "admins") return "chat";
+
+    const allowedChats = [
+      ...(this.rules.allowedChats || []),
+      ...stored.allowedChats,
+    ];
+    const allowedUsers = [
+      ...(this.rules.allowedUsers || []),
+      ...stored.allowedUsers,
+    ];
+    if (allowedChats.includes(String(chatId)) || isListed(allowedUsers)) return;
+    return "chat";
+  }
+
+  /**
+   * Allows a user in any chat and removes them from the blocked users.
+   * @param user - The ID or the username of the user.
+   * @returns A promise that resolves when the lists are stored.
+   */
+  public async allowUser(user: string): Promise<void> {
+    await this.updateStoredLists(
+      ({ allowedUsers, blockedUsers, ...lists }) => ({
+        ...lists,
+        allowedUsers: addToList(allowedUsers, user),
+        blockedUsers: removeFromList(blockedUsers, user),
+      })
+    );
+  }
+
+  /**
+   * Blocks a user and removes them from the allowed users.
+   * @param user - The ID or the username of the user.
+   * @returns A promise that resolves when the lists are stored.
+   */
+  public async blockUser(user: string): Promise<void> {
+    await this.updateStoredLists(
+      ({ allowedUsers, blockedUsers, ...lists }) => ({
+        ...lists,
+        allowedUsers: removeFromList(allowedUsers, user),
+        blockedUsers: addToList(blockedUsers, user),
+      })
+    );
+  }
+
+  /**
+   * Allows everyone in a chat.
+   * @param chatId - The ID of the chat.
+   * @returns A promise that resolves when the lists are stored.
+   */
+  public async allowChat(chatId: string): Promise<void> {
+    await this.updateStoredLists(({ allowedChats, ...lists }) => ({
+      ...lists,
+      allowedChats: addToList(allowedChats, chatId),
+    }));
+  }
+
+  /**
+   * Removes a chat from the allowed chats. Chats allowed in the configuration stay allowed.
+   * @param chatId - The ID of the chat.
+   * @returns A promise that resolves when the lists are stored.
+   */
+  public async blockChat(chatId: string): Promise<void> {
+    await this.updateStoredLists(({ allowedChats, ...lists }) => ({
+      ...lists,
+      allowedChats: removeFromList(allowedChats, chatId),
+    }));
+  }
+
+  /**
+   * Reads the lists changed at runtime.
+   * @returns A promise that resolves to the stored lists, empty if none were stored.
+   */
+  public async getStoredLists(): Promise<StoredAccessLists> {
+    const value = await this.stateService?.getValueById(STORED_ACCESS_LISTS_ID);
+    const stored: Partial<StoredAccessLists> = value ? JSON.parse(value) : {};
+    return {
+      allowedChats: stored.allowedChats || [],
+      allowedUsers: stored.allowedUsers || [],
+      blockedUsers: stored.blockedUsers || [],
+    };
+  }
+
+  /**
+   * Changes the lists changed at runtime.
+   * @param update - Returns the changed lists.
+   * @throws {Error} Throws an error if no state service is configured.
+   */
+  private async updateStoredLists(
+    update: (lists: StoredAccessLists) => StoredAccessLists
+  ): Promise<void> {
+    if (!this.stateService) {
+      throw new Error("stateService is required to change the access lists");
+    }
+    const lists = update(await this.getStoredLists());
+    await this.stateService.setValueById(
+      STORED_ACCESS_LISTS_ID,
+      JSON.stringify(lists)
+    );
+  }
+}
+
+/**
+ * Adds an entry to a list unless it is already there.
+ * @param list - The list.
+ * @param entry - The added entry.
+ * @returns The list with the entry.
+ */
+const addToList = (list: string[], entry: string): string[] =>
+  list.includes(entry) ? list : [...list, entry];
+
+/**
+ * Removes an entry from a list.
+ * @param list - The list.
+ * @param entry - The removed entry.
+ * @returns The list without the entry.
+ */
+const removeFromList = (list: string[], entry: string): string[] =>
+  list.filter((item) => item !== entry);
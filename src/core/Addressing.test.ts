@@ -0,0 +1,41 @@
+import TelegramBot from "node-telegram-bot-api";
+import { removeBotMentions } from "./Addressing";
+
+/**
+ * Returns the mention entities of the username in the text.
+ */
+const mentionsOf = (
+  text: string,
+  username: string
+): TelegramBot.MessageEntity[] =>
+  [...text.matchAll(new RegExp(username, "g"))].map(({ index }) => ({
+    type: "mention",
+    offset: index!,
+    length: username.length,
+  }));
+
+describe("removeBotMentions", () => {
+  it("removes the mentions and the spaces around them", () => {
+    const text = "@TestBot  what is  2 + 2, @TestBot ?";
+
+    expect(removeBotMentions(text, mentionsOf(text, "@TestBot"))).toBe(
+      "what is  2 + 2, ?"
+    );
+  });
+
+  it("keeps the line breaks and the indentation of the text", () => {
+    const text = "@TestBot fix this:\n```\nif (a) {\n    b();\n}\n```";
+
+    expect(removeBotMentions(text, mentionsOf(text, "@TestBot"))).toBe(
+      "fix this:\n```\nif (a) {\n    b();\n}\n```"
+    );
+  });
+
+  it("removes a mention on its own line without joining the lines", () => {
+    const text = "First line\n@TestBot\nSecond line";
+
+    expect(removeBotMentions(text, mentionsOf(text, "@TestBot"))).toBe(
+      "First line\n\nSecond line"
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import TelegramBot from "node-telegram-bot-api";
+
+/**
+ * Represents a way a message addresses the bot.
+ * - "any" - every message
+ * - "command" - a command of the bot, e.g. "/command" or "/command@BotName"
+ * - "mention" - a mention of the bot, e.g. "@BotName"
+ * - "reply" - a reply to a message of the bot
+ */
+export type AddressingMode = "any" | "command" | "mention" | "reply";
+
+/**
+ * Represents the ways messages address the bot in each type of chat.
+ */
+export type AddressingRules = {
+  /**
+   * The ways messages address the bot in private chats. Defaults to every message.
+   */
+  privateChats?: AddressingMode[];
+  /**
+   * The ways messages address the bot in groups. Defaults to commands, mentions and replies.
+   */
+  groupChats?: AddressingMode[];
+};
+
+/**
+ * The default ways messages address the bot.
+ */
+export const DEFAULT_ADDRESSING_RULES: Required<AddressingRules> = {
+  privateChats: ["any"],
+  groupChats: ["command", "mention", "reply"],
+};
+
+/**
+ * The hint shown in /help for each way to address the bot.
+ */
+const ADDRESSING_HINTS: Record<AddressingMode, string> = {
+  any: "send a message",
+  command: "send a command",
+  mention: "mention @{username}",
+  reply: "reply to a message of the bot",
+};
+
+/**
+ * Returns the ranges of the message text which mention the bot,
+ * by its username or, for users without a username, by a text mention of its ID.
+ * @param message - The received message.
+ * @param botInfo - The bot user.
+ * @returns The mention ranges, empty if the bot is not mentioned.
+ */
+export const getBotMentions = (
+  message: TelegramBot.Message,
+  botInfo: TelegramBot.User | null
+): TelegramBot.MessageEntity[] => {
+  const text = message.text ?? message.caption ?? "";
+  const entities = message.entities ?? message.caption_entities ?? [];
+  const mention = `@${botInfo?.username || ""}`.toLowerCase();
+  return entities.filter(
+    ({ type, offset, length, user }) =>
+      (type === "mention" &&
+        !!botInfo?.username &&
+        text.substring(offset, offset + length).toLowerCase() === mention) ||
+      (type === "text_mention" && !!botInfo && user?.id === botInfo.id)
+  );
+};
+
+/**
+ * Removes the mentions of the bot from the message text, so the model gets only the request.
+ * Only the spaces right around a mention are removed, the line breaks and indentation of the text are kept.
+ * @param text - The message text.
+ * @param mentions - The mention ranges, as returned by getBotMentions.
+ * @returns The text without the mentions.
+ */
+export const removeBotMentions = (
+  text: string,
+  mentions: TelegramBot.MessageEntity[]
+): string =>
+  [...mentions]
+    .sort((a, b) => b.offset - a.offset)
+    .reduce((result, { offset, length }) => {
+      const before = result.substring(0, offset).replace(/[ \t]+$/, "");
+      const after = result.substring(offset + length).replace(/^[ \t]+/, "");
+      const separator =
+        before && after && !before.endsWith("\n") && !after.startsWith("\n")
+          ? " "
+          : "";
+      return `${before}${separator}${after}`;
+    }, text)
+    .trim();
+
+/**
+ * Describes how to address the bot in the chat, e.g. "To talk to me, send a command or reply to a message of the bot".
+ * @param modes - The ways messages address the bot in the chat.
+ * @param username - The username of the bot.
+ * @returns The description, empty if the bot is not addressed in the chat.
+ */
+export const describeAddressing = (
+  modes: AddressingMode[],
+  username: string
+): string => {
+  const hints = (modes.includes("any") ? ["any" as const] : modes).map((mode) =>
+    ADDRESSING_HINTS[mode].replace("{username}", username)
+  );
+  if (!hints.length) return "";
+  const list =
+    hints.length > 1
+      ? `${hints.slice(0, -1).join(", ")} or ${hints[hints.length - 1]}`
+      : hints[0];
+  return `To talk to me, ${list}.`;
+};
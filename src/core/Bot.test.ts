@@ -0,0 +1,470 @@
+import TelegramBot from "node-telegram-bot-api";
+import { ConversationTurn, createTurn } from "../managers/ConversationTurn";
+import { BotMessageHistory } from "../managers/BotMessageHistory";
+import { ConversationSummarizer } from "../managers/ConversationSummarizer";
+import {
+  PromptOptions,
+  PromptServiceInterface,
+} from "../services/prompt/PromptServiceInterface";
+import { LocalStateService } from "../services/state/LocalStateService";
+import { configureLogger } from "../utils/logger";
+import { Bot, BotConfig } from "./Bot";
+import { createConfirmationKeyboard } from "./ResultConfirmation";
+
+const BOT_USER: TelegramBot.User = {
+  id: 999,
+  is_bot: true,
+  first_name: "Test bot",
+  username: "TestBot",
+};
+
+/**
+ * The token usage reported by the fake prompt service for every call.
+ */
+const CALL_USAGE = { promptTokens: 10, completionTokens: 5 };
+
+/**
+ * Creates a Bot with a fake Telegram bot and a prompt service which answers "Answer".
+ * The history is summarized after summarizeAfterTurns turns, if given, keeping the last 2 turns.
+ */
+const createTestBot = (
+  config: Partial<BotConfig> = {},
+  summarizeAfterTurns?: number
+) => {
+  const telegramBot = {
+    getMe: jest.fn(async () => BOT_USER),
+    sendMessage: jest.fn(async (chatId: number) => ({
+      message_id: Math.floor(Math.random() * 1e6),
+      chat: { id: chatId },
+    })),
+    answerCallbackQuery: jest.fn(async () => true),
+    editMessageReplyMarkup: jest.fn(async () => true),
+  };
+  const promptService: PromptServiceInterface<ConversationTurn> = {
+    makePrompt: jest.fn(
+      async (
+        username: string,
+        text: string,
+        history: ConversationTurn[],
+        options: PromptOptions = {}
+      ) => {
+        options.onUsage?.(CALL_USAGE, "test-model");
+        return [
+          ...history,
+          createTurn("user", text, { author: username }),
+          createTurn("assistant", "Answer"),
+        ];
+      }
+    ),
+    getLastMessage: (turns) => turns[turns.length - 1]?.text || null,
+  };
+  const stateService = new LocalStateService();
+  const bot = new Bot({
+    promptService,
+    historyService: new BotMessageHistory({
+      stateService,
+      summarizer: summarizeAfterTurns
+        ? new ConversationSummarizer({
+            promptService,
+            maxTurns: summarizeAfterTurns,
+            keepTurns: 2,
+          })
+        : undefined,
+    }),
+    telegramBot: telegramBot as unknown as TelegramBot,
+    command: "/ask",
+    defaultResponse: "Help",
+    endOfConversationFn: () => undefined,
+    stateService,
+    replyFormat: "plain",
+    ...config,
+  });
+  const sentTexts = () =>
+    telegramBot.sendMessage.mock.calls.map((call: unknown[]) => call[1]);
+  return { bot, telegramBot, promptService, stateService, sentTexts };
+};
+
+let nextMessageId = 1;
+
+/**
+ * Creates a text message in a private chat with the user.
+ */
+const createMessage = (
+  text: string,
+  from: Partial<TelegramBot.User> = {},
+  chat: Partial<TelegramBot.Chat> = {}
+): TelegramBot.Message => {
+  const user = { id: 100, is_bot: false, first_name: "User", ...from };
+  return {
+    message_id: nextMessageId++,
+    date: 0,
+    text,
+    from: user,
+    chat: { id: user.id, type: "private", ...chat },
+  };
+};
+
+/**
+ * Creates a press of the inline keyboard button under a bot message, by default in a private chat with the user.
+ */
+const createCallbackQuery = (
+  button: TelegramBot.InlineKeyboardButton,
+  from: Partial<TelegramBot.User> = {},
+  chat: Partial<TelegramBot.Chat> = {}
+): TelegramBot.CallbackQuery => {
+  const user = { id: 100, is_bot: false, first_name: "User", ...from };
+  return {
+    id: String(nextMessageId),
+    chat_instance: "instance",
+    from: user,
+    data: button.callback_data,
+    message: {
+      message_id: nextMessageId++,
+      date: 0,
+      text: "🤖 Question",
+      from: BOT_USER,
+      chat: { id: user.id, type: "private", ...chat },
+      reply_markup: { inline_keyboard: [[button]] },
+    },
+  };
+};
+
+beforeAll(() => configureLogger({ sinks: [] }));
+
+describe("Bot access control", () => {
+  it("does not treat a first name equal to an admin username as the admin", async () => {
+    const { bot, sentTexts, stateService } = createTestBot({
+      adminUsers: ["@owner"],
+      allowedChats: ["100"],
+    });
+
+    await bot.processMessage(
+      createMessage("/allow 555", { id: 100, first_name: "owner" })
+    );
+
+    expect(sentTexts()).toEqual(["🤖 Only admins can change the access"]);
+    expect(await stateService.getValueById("access:lists")).toBeUndefined();
+  });
+
+  it("matches the blocked users by Telegram username, not by first name", async () => {
+    const { bot, sentTexts, promptService } = createTestBot({
+      accessRules: { privateChats: "everyone", blockedUsers: ["@spammer"] },
+    });
+
+    await bot.processMessage(
+      createMessage("Hi", { id: 100, username: "spammer" })
+    );
+    await bot.processMessage(
+      createMessage("/ask Hi", { id: 101, first_name: "spammer" })
+    );
+
+    expect(promptService.makePrompt).toHaveBeenCalledTimes(1);
+    expect(sentTexts()).toEqual([
+      "🤖 You are not allowed to use this bot",
+      "🤖 Answer",
+    ]);
+  });
+
+  it("lets the admin change the access by Telegram username", async () => {
+    const { bot, sentTexts } = createTestBot({ adminUsers: ["@owner"] });
+
+    await bot.processMessage(
+      createMessage("/allow @alice", { id: 1, username: "owner" })
+    );
+    await bot.processMessage(
+      createMessage("Hello", { id: 2, username: "alice" })
+    );
+
+    expect(sentTexts()).toEqual(["🤖 Allowed user @alice", "🤖 Answer"]);
+  });
+});
+
+describe("Bot usage", () => {
+  it("shows the usage to admins only, not to a first name equal to an admin username", async () => {
+    const { bot, sentTexts } = createTestBot({
+      adminUsers: ["@owner"],
+      accessRules: { privateChats: "everyone" },
+    });
+
+    await bot.processMessage(
+      createMessage("/usage", { id: 100, first_name: "owner" })
+    );
+    await bot.processMessage(
+      createMessage("/usage", { id: 1, username: "owner" })
+    );
+
+    expect(sentTexts()[0]).toBe("🤖 Only admins can see the usage");
+    expect(sentTexts()[1]).toMatch(/^🤖 Usage in \d{4}-\d{2}/);
+  });
+});
+
+describe("Bot usage tracking", () => {
+  it("counts the summary calls and the calls of failed attempts", async () => {
+    // The history of the second exchange is summarized when it is saved
+    const { bot, promptService } = createTestBot(
+      { accessRules: { privateChats: "everyone" } },
+      3
+    );
+    const makePrompt = promptService.makePrompt as jest.Mock;
+    // A failover attempt which was charged before it failed
+    makePrompt.mockImplementationOnce(
+      async (...args: Parameters<typeof promptService.makePrompt>) => {
+        args[3]?.onUsage?.(CALL_USAGE, "test-model");
+        return makePrompt.getMockImplementation()!(...args);
+      }
+    );
+
+    await bot.processMessage(createMessage("First"));
+    await bot.processMessage(createMessage("Second"));
+
+    // Two calls of the first message, one of the second and one of the summary
+    expect(await bot.usage!.getChatUsage(100)).toMatchObject({
+      calls: 4,
+      promptTokens: 40,
+      completionTokens: 20,
+    });
+  });
+});
+
+describe("Bot update deduplication", () => {
+  it("processes a redelivered message only once", async () => {
+    const { bot, sentTexts } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+    });
+    const message = createMessage("Hi");
+
+    await bot.processUpdate({ type: "message", payload: message, updateId: 1 });
+    await bot.processUpdate({ type: "message", payload: message, updateId: 1 });
+    await bot.processMessage(message);
+
+    expect(sentTexts()).toEqual(["🤖 Answer"]);
+  });
+
+  it("processes a redelivered message again when processing failed", async () => {
+    const { bot, sentTexts, telegramBot } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+    });
+    const message = createMessage("Hi");
+    telegramBot.getMe.mockRejectedValueOnce(new Error("Network error"));
+
+    await expect(bot.processMessage(message)).rejects.toThrow("Network error");
+    await bot.processMessage(message);
+    await bot.processMessage(message);
+
+    expect(sentTexts()).toEqual(["🤖 Answer"]);
+  });
+});
+
+describe("Bot conversation results", () => {
+  it("returns a falsy valid result", async () => {
+    const { bot, promptService } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+      endOfConversationFn: undefined,
+      resultSchema: { type: "boolean" },
+    });
+    (promptService.makePrompt as jest.Mock).mockImplementationOnce(
+      async (username: string, text: string, history: ConversationTurn[]) => [
+        ...history,
+        createTurn("user", text),
+        createTurn("assistant", JSON.stringify({ result: false })),
+      ]
+    );
+    const callback = jest.fn();
+
+    expect(await bot.processMessage(createMessage("Done?"), callback)).toBe(
+      false
+    );
+    expect(callback).toHaveBeenCalledWith(false, expect.anything(), bot);
+  });
+
+  it("asks the model to correct an invalid response", async () => {
+    const { bot, promptService } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+      endOfConversationFn: undefined,
+      resultSchema: { type: "integer" },
+    });
+    const makePrompt = promptService.makePrompt as jest.Mock;
+    for (const answer of ["Sure!", JSON.stringify({ result: 2 })]) {
+      makePrompt.mockImplementationOnce(
+        async (username: string, text: string, history: ConversationTurn[]) => [
+          ...history,
+          createTurn("user", text),
+          createTurn("assistant", answer),
+        ]
+      );
+    }
+
+    expect(await bot.processMessage(createMessage("How many?"))).toBe(2);
+    expect(makePrompt).toHaveBeenCalledTimes(2);
+    expect(makePrompt.mock.calls[1][1]).toMatch(
+      /^Your last response is invalid: Response is not valid JSON/
+    );
+  });
+
+  it("tells the user and keeps the history when the response stays invalid", async () => {
+    const { bot, promptService, sentTexts } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+      endOfConversationFn: undefined,
+      resultSchema: { type: "integer" },
+      maxResultRetries: 1,
+    });
+    const makePrompt = promptService.makePrompt as jest.Mock;
+
+    await bot.processMessage(createMessage("How many?"));
+    await bot.processMessage(createMessage("Three"));
+
+    expect(makePrompt).toHaveBeenCalledTimes(4);
+    expect(sentTexts()).toEqual([
+      "🤖 Sorry, I could not answer properly, please try again",
+      "🤖 Sorry, I could not answer properly, please try again",
+    ]);
+    expect((makePrompt.mock.calls[2][2] as ConversationTurn[])[0].text).toBe(
+      "How many?"
+    );
+  });
+
+  it("splits a long result to confirm into several messages", async () => {
+    const { bot, telegramBot } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+      endOfConversationFn: () => "Long result ".repeat(1000),
+      confirmResult: true,
+    });
+
+    await bot.processMessage(createMessage("Finish"));
+
+    const calls = telegramBot.sendMessage.mock.calls as unknown as [
+      number,
+      string,
+      TelegramBot.SendMessageOptions
+    ][];
+    expect(calls.length).toBeGreaterThan(1);
+    expect(calls[0][1]).toMatch(/^🤖 Please confirm:\n/);
+    calls.forEach(([, text]) => expect(text.length).toBeLessThanOrEqual(4096));
+    expect(calls[calls.length - 1][2].reply_markup).toBeDefined();
+    expect(calls[0][2].reply_markup).toBeUndefined();
+  });
+});
+
+describe("Bot edited messages", () => {
+  it("answers an edited message of a reply chain from the replied bot message", async () => {
+    const { bot, promptService, sentTexts } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+      conversationScope: "thread",
+    });
+    const message = createMessage("Frist question");
+
+    await bot.processMessage(message);
+    await bot.processEditedMessage({
+      ...message,
+      text: "First question",
+      edit_date: 1,
+    });
+
+    const makePrompt = promptService.makePrompt as jest.Mock;
+    expect(makePrompt).toHaveBeenCalledTimes(2);
+    expect(makePrompt.mock.calls[1][1]).toBe("First question");
+    expect(makePrompt.mock.calls[1][2]).toEqual([]);
+    expect(sentTexts()).toEqual(["🤖 Answer", "🤖 Answer"]);
+  });
+
+  it("re-runs the last exchange with the edited text", async () => {
+    const { bot, promptService } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+    });
+    const first = createMessage("First");
+    const second = createMessage("Secnod");
+
+    await bot.processMessage(first);
+    await bot.processMessage(second);
+    await bot.processEditedMessage({ ...first, text: "Edited", edit_date: 1 });
+    await bot.processEditedMessage({ ...second, text: "Second", edit_date: 1 });
+
+    const makePrompt = promptService.makePrompt as jest.Mock;
+    expect(makePrompt).toHaveBeenCalledTimes(3);
+    expect(makePrompt.mock.calls[2][1]).toBe("Second");
+    expect(
+      (makePrompt.mock.calls[2][2] as ConversationTurn[]).map(
+        ({ text }) => text
+      )
+    ).toEqual(["First", "Answer"]);
+  });
+});
+
+describe("Bot button presses", () => {
+  const quickReply = { text: "Yes", callback_data: "reply:0" };
+  const confirm = createConfirmationKeyboard().inline_keyboard[0][0];
+
+  it("answers a quick reply and removes its keyboard", async () => {
+    const { bot, telegramBot, promptService } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+    });
+
+    await bot.processMessage(createCallbackQuery(quickReply));
+
+    expect((promptService.makePrompt as jest.Mock).mock.calls[0][1]).toBe(
+      "Yes"
+    );
+    expect(telegramBot.editMessageReplyMarkup).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the keyboard when the press is refused", async () => {
+    const { bot, telegramBot, promptService } = createTestBot({
+      accessRules: { privateChats: "everyone", blockedUsers: ["@spammer"] },
+    });
+
+    await bot.processMessage(
+      createCallbackQuery(quickReply, { username: "spammer" })
+    );
+    await bot.processMessage(createCallbackQuery(confirm));
+
+    expect(promptService.makePrompt).not.toHaveBeenCalled();
+    expect(telegramBot.editMessageReplyMarkup).not.toHaveBeenCalled();
+  });
+
+  it("confirms the pending result and removes the keyboard", async () => {
+    const { bot, telegramBot } = createTestBot({
+      accessRules: { privateChats: "everyone" },
+      endOfConversationFn: () => "Result",
+      confirmResult: true,
+    });
+    const callback = jest.fn();
+
+    await bot.processMessage(createMessage("Finish"));
+    expect(telegramBot.editMessageReplyMarkup).not.toHaveBeenCalled();
+
+    expect(
+      await bot.processMessage(createCallbackQuery(confirm), callback)
+    ).toBe("Result");
+    expect(callback).toHaveBeenCalledWith("Result", expect.anything(), bot);
+    expect(telegramBot.editMessageReplyMarkup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Bot result confirmation", () => {
+  it("refuses the confirmation of anyone but the author of the request", async () => {
+    const { bot, sentTexts } = createTestBot({
+      accessRules: { groupChats: "everyone" },
+      conversationScope: "chat",
+      endOfConversationFn: () => "Result",
+      confirmResult: true,
+    });
+    const group = { id: -1, type: "group" as const };
+    const confirm = createConfirmationKeyboard().inline_keyboard[0][0];
+    const callback = jest.fn();
+
+    await bot.processMessage(createMessage("/ask Finish", {}, group));
+    await bot.processMessage(
+      createCallbackQuery(confirm, { id: 101 }, group),
+      callback
+    );
+    expect(callback).not.toHaveBeenCalled();
+
+    await bot.processMessage(createCallbackQuery(confirm, {}, group), callback);
+    expect(callback).toHaveBeenCalledWith("Result", expect.anything(), bot);
+    expect(sentTexts()).toEqual([
+      expect.stringMatching(/^🤖 Please confirm:/),
+      "🤖 Only the author of the request can confirm it",
+      "🤖 Confirmed",
+    ]);
+  });
+});
@@ -2,51 +2,164 @@ import TelegramBot from "node-telegram-bot-api";
 import OpenAI from "openai";
 import { HistoryManagerInterface } from "../managers/HistoryManagerInterface";
 import { BotMessageHistory } from "../managers/BotMessageHistory";
+import { ConversationSummarizer } from "../managers/ConversationSummarizer";
+import {
+  ModelPrices,
+  UsageSummary,
+  UsageTracker,
+  formatUsage,
+} from "../managers/UsageTracker";
+import {
+  ConversationAttachment,
+  ConversationTurn,
+  TokenUsage,
+  createTurn,
+} from "../managers/ConversationTurn";
 import { OpenAIPromptService } from "../services/prompt/OpenAIPromptService";
 import { GeminiPromptService } from "../services/prompt/GeminiPromptService";
-import { PromptServiceInterface } from "../services/prompt/PromptServiceInterface";
+import {
+  AttachmentContent,
+  PromptOptions,
+  PromptServiceInterface,
+} from "../services/prompt/PromptServiceInterface";
+import { FailoverPromptService } from "../services/prompt/FailoverPromptService";
 import { DynamoDBService } from "../services/state/DynamoDBService";
-import { FROM, TYPE, log } from "../utils/logger";
+import {
+  FROM,
+  TYPE,
+  getCorrelationId,
+  log,
+  withCorrelationId,
+} from "../utils/logger";
 import { LocalStateService } from "../services/state/LocalStateService";
+import { measure } from "../utils/metrics";
+import { MetricsInterface } from "../services/metrics/MetricsInterface";
+import { NoopMetrics } from "../services/metrics/NoopMetrics";
+import { StateServiceInterface } from "../services/state/StateServiceInterface";
 import { ChatCompletionCreateParams } from "openai/resources";
+import { BotTool, ToolRegistry } from "../services/prompt/ToolRegistry";
+import { JSONSchema } from "../utils/jsonSchema";
+import {
+  SUPPORTED_DOCUMENT_FORMATS,
+  extractDocumentText,
+  getDocumentFormat,
+} from "../utils/documents";
+import { OpenAITranscriber } from "../services/transcription/OpenAITranscriber";
+import { GeminiTranscriber } from "../services/transcription/GeminiTranscriber";
+import { TranscriberInterface } from "../services/transcription/TranscriberInterface";
+import { StreamingReply } from "./StreamingReply";
+import { ReplyRenderer } from "./ReplyRenderer";
+import { ReplyFormat } from "../utils/markdown";
+import {
+  RATE_LIMIT_REPLIES,
+  RateLimitMetric,
+  RateLimiter,
+  RateLimits,
+} from "./RateLimiter";
+import { AccessPolicy, AccessRules } from "./AccessPolicy";
+import {
+  AddressingRules,
+  DEFAULT_ADDRESSING_RULES,
+  describeAddressing,
+  getBotMentions,
+  removeBotMentions,
+} from "./Addressing";
+import { downloadFile, getMessageAttachments } from "./TelegramFiles";
+import { BotUpdate, UpdateDispatcher } from "./UpdateDispatcher";
+import {
+  createQuickRepliesKeyboard,
+  getQuickReplies,
+  parseQuickReply,
+  quickRepliesTool,
+} from "./QuickReplies";
+import {
+  CONFIRMATION_LABELS,
+  ConfirmationAction,
+  createConfirmationKeyboard,
+  formatResultAsJSON,
+  parseConfirmation,
+} from "./ResultConfirmation";
+import { BotCommand, CommandRouter } from "./CommandRouter";
+import {
+  createStructuredResponseSchema,
+  parseStructuredResponse,
+} from "./StructuredResult";
 
-export type BotResultCallback = (
-  result: string,
+export type BotResultCallback<TResult = any> = (
+  result: TResult,
   message: TelegramBot.Message,
-  instance: Bot
+  instance: Bot<TResult>
 ) => void | Promise<void>;
 
+/**
+ * Represents an incoming user input: a message or a press of an inline keyboard button.
+ */
+export type BotIncomingMessage =
+  | TelegramBot.Message
+  | TelegramBot.CallbackQuery;
+
 /**
  * Represents information about a bot message.
  */
 export type BotMessageInfo = {
   messageId: number;
+  /**
+   * The username of the user or, without one, the first name, which anyone can change to anything.
+   * Only used to address the user, never to identify them.
+   */
   username: string;
+  /**
+   * The Telegram username of the user, undefined if the user has none. Used with the userId to match the user lists.
+   */
+  telegramUsername: string | undefined;
   mention: string;
   userId: number | undefined;
   text: string;
   chatId: number;
   isBot: boolean;
-  isAllowedChat: boolean;
+  isPrivateChat: boolean;
+  isBotMentioned: boolean;
   isTextMessage: boolean;
+  replyToMessageId: number | undefined;
+  command: string | undefined;
+  attachments: ConversationAttachment[];
+};
+
+/**
+ * Represents the result of a finished conversation.
+ * @template TResult - The type of the conversation result.
+ */
+type BotConversationResult<TResult> = {
+  result: TResult;
+  command: BotCommand<TResult>;
 };
 
+/**
+ * Represents how conversations are shared between users and chats.
+ * - "user" - one conversation per user across all chats
+ * - "chat" - one conversation shared by all users of a chat
+ * - "user+chat" - one conversation per user in each chat
+ * - "thread" - one conversation per reply chain, shared by everyone replying to the bot
+ */
+export type ConversationScope = "user" | "chat" | "user+chat" | "thread";
+
 /**
  * Represents the configuration options for the Bot.
+ * @template TResult - The type of the conversation result.
  */
-export type BotConfig = {
+export type BotConfig<TResult = any> = {
   /**
    * The prompt service used by the Bot.
    */
-  promptService: PromptServiceInterface<unknown>;
+  promptService: PromptServiceInterface<ConversationTurn>;
   /**
    * The history service used by the Bot.
    */
-  historyService: HistoryManagerInterface<unknown>;
+  historyService: HistoryManagerInterface<ConversationTurn>;
   /**
-   * The allowed chats for the Bot.
+   * The allowed chats for the Bot, added to the allowed chats of the accessRules.
    */
-  allowedChats: string[];
+  allowedChats?: string[];
   /**
    * The command used by the Bot.
    */
@@ -61,24 +174,160 @@ export type BotConfig = {
   telegramBot: TelegramBot;
   /**
    * The function which define the end of the conversation. Must return a value which will be used as the result of the conversation.
+   * Not used when resultSchema is provided.
    * @param message - The message indicating the end of the conversation.
    * @returns The result of the end of conversation function, used as the result of the conversation.
    */
-  endOfConversationFn: (message: string) => any;
+  endOfConversationFn?: (message: string) => TResult | void;
+  /**
+   * The JSON schema of the conversation result. The prompt service must be created
+   * with the schema returned by createStructuredResponseSchema.
+   */
+  resultSchema?: JSONSchema;
+  /**
+   * The number of times the model is asked to fix an invalid result.
+   */
+  maxResultRetries?: number;
+  /**
+   * Enables streaming replies, progressively edited while the answer arrives.
+   */
+  streaming?: boolean;
+  /**
+   * The scope of the conversation history. Defaults to "user".
+   */
+  conversationScope?: ConversationScope;
+  /**
+   * How messages address the Bot in private chats and in groups.
+   */
+  addressing?: AddressingRules;
+  /**
+   * The description of the main command shown in /help and in the Telegram command menu.
+   */
+  commandDescription?: string;
+  /**
+   * Additional slash commands with their own prompts and result handlers.
+   */
+  commands?: BotCommand<TResult>[];
+  /**
+   * The minimum interval in milliseconds between two edits of a streaming reply.
+   */
+  streamEditIntervalMs?: number;
+  /**
+   * The Telegram formatting of the model answers, converted from markdown. Defaults to "html".
+   */
+  replyFormat?: ReplyFormat;
+  /**
+   * The text shown before every reply of the Bot. Defaults to "🤖 ".
+   */
+  replyPrefix?: string;
+  /**
+   * Asks the user to confirm the conversation result with Confirm, Edit and Cancel buttons.
+   * The result callbacks are only called after the user confirms.
+   */
+  confirmResult?: boolean;
+  /**
+   * Formats the result shown to the user for confirmation. Defaults to indented JSON.
+   * @param result - The conversation result.
+   * @returns The text of the summary.
+   */
+  formatResult?: (result: TResult) => string;
+  /**
+   * Transcribes voice messages and audio files, which are otherwise ignored.
+   */
+  transcriber?: TranscriberInterface;
+  /**
+   * Replies with the transcript of every voice message before answering it.
+   */
+  echoTranscript?: boolean;
+  /**
+   * The maximum size in bytes of an uploaded document. Defaults to 5 MB.
+   */
+  maxDocumentBytes?: number;
+  /**
+   * The maximum number of characters of the text extracted from a document. Defaults to 20000.
+   */
+  maxDocumentChars?: number;
+  /**
+   * The state service used to skip updates which were already processed,
+   * e.g. when Telegram redelivers a webhook update after a timeout.
+   */
+  stateService?: StateServiceInterface<ConversationTurn>;
+  /**
+   * The limits of messages, LLM calls and tokens per user and per chat. Requires the stateService.
+   */
+  rateLimits?: RateLimits;
+  /**
+   * The IDs or usernames of the admins, who are never restricted or rate limited,
+   * can see the /usage and can change the access with /allow and /block.
+   */
+  adminUsers?: string[];
+  /**
+   * The users, chats and commands the Bot is restricted to. Only allowed chats are served by default.
+   */
+  accessRules?: AccessRules;
+  /**
+   * The reply sent to users who are not authorized, or an empty string to ignore them.
+   */
+  unauthorizedReply?: string;
+  /**
+   * The prices of the models in USD per million tokens, used to calculate the cost of the usage.
+   */
+  modelPrices?: ModelPrices;
+  /**
+   * The metrics which measure the stages of the message pipeline. Defaults to no metrics.
+   */
+  metrics?: MetricsInterface;
+};
+
+/**
+ * Represents a supported AI provider.
+ */
+export type BotProvider = "openai" | "gemini";
+
+/**
+ * Represents a provider in the failover chain.
+ */
+export type BotProviderConfig = {
+  /**
+   * The AI provider to use.
+   */
+  provider: BotProvider;
+  /**
+   * The model to use with the provider.
+   */
+  model: string;
+  /**
+   * The API key of the provider. Defaults to openAIKey or geminiKey.
+   */
+  apiKey?: string;
+  /**
+   * The maximum time in milliseconds to wait for an answer.
+   */
+  timeoutMs?: number;
+  /**
+   * The number of retries before failing over to the next provider. Defaults to 0.
+   */
+  retries?: number;
+  /**
+   * The delay in milliseconds before the first retry, doubled on every next retry. Defaults to 1000.
+   */
+  backoffMs?: number;
 };
 
 /**
  * Configuration object for creating a bot.
+ * @template TResult - The type of the conversation result.
  */
-export type BotCreateConfig = {
+export type BotCreateConfig<TResult = any> = {
   /**
    * The command used to invoke the bot.
    */
   command: string;
   /**
-   * The AI provider to use ("openai" or "gemini").
+   * The AI provider to use ("openai" or "gemini"),
+   * or an ordered list of providers to fail over between on errors, rate limits or empty answers.
    */
-  provider: "openai" | "gemini";
+  provider: BotProvider | BotProviderConfig[];
   /**
    * The OpenAI API key (required when provider is "openai").
    */
@@ -93,9 +342,9 @@ export type BotCreateConfig = {
    */
   dynamoDBTableName?: string;
   /**
-   * An array of allowed chat IDs.
+   * An array of allowed chat IDs, where every user who is not blocked can use the bot.
    */
-  allowedChats: string[];
+  allowedChats?: string[];
   /**
    * The default response when the bot doesn't have a specific answer.
    */
@@ -110,37 +359,257 @@ export type BotCreateConfig = {
    * The model to use for chat completion.
    * For OpenAI: e.g., "gpt-3.5-turbo", "gpt-4"
    * For Gemini: e.g., "gemini-pro", "gemini-pro-vision"
+   * Required unless provider is a list.
    */
-  model: string;
+  model?: string;
   /**
    * A function called when the conversation ends.
+   * Required unless resultSchema is provided.
    * @param message - The final message of the conversation.
    * @returns The result of the end of conversation function.
    */
-  endOfConversationFn: (message: string) => any;
+  endOfConversationFn?: (message: string) => TResult | void;
+  /**
+   * The JSON schema of the conversation result.
+   * Enables the JSON output mode of the provider and validates the result before returning it.
+   */
+  resultSchema?: JSONSchema;
+  /**
+   * The number of times the model is asked to fix an invalid result. Defaults to 2.
+   */
+  maxResultRetries?: number;
+  /**
+   * Enables streaming replies: a placeholder reply is sent at once and edited as tokens arrive.
+   * Not used together with resultSchema, as the structured response is not readable while streamed.
+   */
+  streaming?: boolean;
+  /**
+   * The minimum interval in milliseconds between two edits of a streaming reply.
+   * Defaults to 1000 to stay inside Telegram's edit rate limits.
+   */
+  streamEditIntervalMs?: number;
+  /**
+   * The Telegram formatting of the model answers, converted from markdown. Defaults to "html".
+   */
+  replyFormat?: ReplyFormat;
+  /**
+   * The text shown before every reply of the Bot. Defaults to "🤖 ".
+   */
+  replyPrefix?: string;
+  /**
+   * Asks the user to confirm the conversation result with Confirm, Edit and Cancel buttons.
+   * The result callbacks are only called after the user confirms.
+   */
+  confirmResult?: boolean;
+  /**
+   * Formats the result shown to the user for confirmation. Defaults to indented JSON.
+   * @param result - The conversation result.
+   * @returns The text of the summary.
+   */
+  formatResult?: (result: TResult) => string;
+  /**
+   * The scope of the conversation history: "user", "chat", "user+chat" or "thread" (reply chain).
+   * In shared scopes every turn is attributed to its author. Defaults to "user".
+   */
+  conversationScope?: ConversationScope;
+  /**
+   * How messages address the Bot in private chats and in groups.
+   */
+  addressing?: AddressingRules;
+  /**
+   * The description of the main command shown in /help and in the Telegram command menu.
+   */
+  commandDescription?: string;
+  /**
+   * Additional slash commands, each with its own description, system prompt,
+   * result handler and optional argument parser. /help, /start, /reset and /cancel are built in.
+   */
+  commands?: BotCommand<TResult>[];
+  /**
+   * The tools the model can call during the conversation, e.g. to look up a calendar.
+   */
+  tools?: BotTool[];
+  /**
+   * Lets the model offer quick reply options, shown as an inline keyboard under the reply.
+   * Offered through the "options" field of the structured response with resultSchema, or through a tool otherwise.
+   */
+  quickReplies?: boolean;
+  /**
+   * The maximum number of tool call rounds per user message. Defaults to 5.
+   */
+  maxToolIterations?: number;
+  /**
+   * The number of seconds after the last message when the conversation history expires. Defaults to 300.
+   */
+  historyTTLSeconds?: number;
+  /**
+   * The maximum number of stored conversation turns. The oldest turns are dropped first.
+   */
+  maxHistoryTurns?: number;
+  /**
+   * The number of conversation turns after which the older turns are summarized by the model.
+   * Summarization is disabled by default.
+   */
+  summarizeAfterTurns?: number;
+  /**
+   * The number of the latest turns kept as they are when summarizing. Defaults to 4.
+   */
+  summaryKeepTurns?: number;
+  /**
+   * The maximum estimated number of prompt tokens. The system prompt is always kept
+   * and the oldest turns are dropped first to fit.
+   */
+  maxPromptTokens?: number;
+  /**
+   * The maximum number of tokens in the answer. Defaults to 200 for OpenAI.
+   */
+  maxCompletionTokens?: number;
+  /**
+   * The sampling temperature. Defaults to 0 for OpenAI.
+   */
+  temperature?: number;
+  /**
+   * Transcribes voice messages and audio files: Whisper for "openai", the audio input for "gemini",
+   * or a custom transcriber. Voice messages are ignored by default.
+   */
+  transcriber?: BotProvider | TranscriberInterface;
+  /**
+   * The transcription model. Defaults to "whisper-1" for OpenAI and to the model of the bot for Gemini.
+   */
+  transcriptionModel?: string;
+  /**
+   * Replies with the transcript of every voice message before answering it.
+   */
+  echoTranscript?: boolean;
+  /**
+   * The maximum size in bytes of an uploaded document. Defaults to 5 MB.
+   */
+  maxDocumentBytes?: number;
+  /**
+   * The maximum number of characters of the text extracted from a document. Defaults to 20000.
+   */
+  maxDocumentChars?: number;
+  /**
+   * The limits of messages per minute, LLM calls per day and tokens per day,
+   * applied to every user and to every chat. Limits are not enforced by default.
+   */
+  rateLimits?: RateLimits;
+  /**
+   * The IDs or usernames of the admins, who are never restricted or rate limited,
+   * can see the /usage and can change the access with /allow and /block.
+   */
+  adminUsers?: string[];
+  /**
+   * The allowed and blocked users, the users allowed to use each command and who can use the bot
+   * in private chats and in groups. Changes made with /allow and /block are kept in the state storage.
+   */
+  accessRules?: AccessRules;
+  /**
+   * The reply sent to users who are not authorized, or an empty string to ignore them.
+   * Defaults to "You are not allowed to use this bot".
+   */
+  unauthorizedReply?: string;
+  /**
+   * The prices of the models in USD per million prompt and completion tokens, e.g.
+   * `{ "gpt-4o": { prompt: 5, completion: 15 } }`. Models missing from the table cost nothing.
+   */
+  modelPrices?: ModelPrices;
+  /**
+   * The metrics which measure the stages of the message pipeline and every model call,
+   * e.g. InMemoryMetrics in tests or OpenTelemetryMetrics. Defaults to no metrics.
+   */
+  metrics?: MetricsInterface;
   /**
    * Optional options for configuring the Telegram bot.
    */
   telegramBot: TelegramBot;
 };
 
+/**
+ * The default reply sent to users who are not authorized.
+ */
+const DEFAULT_UNAUTHORIZED_REPLY = "You are not allowed to use this bot";
+
+/**
+ * The default number of times the model is asked to fix an invalid result.
+ */
+const DEFAULT_MAX_RESULT_RETRIES = 2;
+
+/**
+ * The default minimum interval in milliseconds between two edits of a streaming reply.
+ */
+const DEFAULT_STREAM_EDIT_INTERVAL_MS = 1000;
+
+/**
+ * The default description of the main command.
+ */
+const DEFAULT_COMMAND_DESCRIPTION = "Start a conversation";
+
+/**
+ * The default maximum size in bytes of an uploaded document.
+ */
+const DEFAULT_MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * The default maximum number of characters of the text extracted from a document.
+ */
+const DEFAULT_MAX_DOCUMENT_CHARS = 20000;
+
+/**
+ * The number of seconds an update is remembered as processed. Telegram keeps undelivered updates for 24 hours.
+ */
+const PROCESSED_UPDATE_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * The number of seconds an update stays claimed while it is processed, the maximum duration of a Lambda invocation.
+ * The claim of an invocation which timed out expires, so a redelivery of the update is processed.
+ */
+const PROCESSING_UPDATE_TTL_SECONDS = 15 * 60;
+
 /**
  * Represents a Bot that interacts with users through Telegram.
+ * @template TResult - The type of the conversation result.
  */
-export class Bot {
+export class Bot<TResult = any> {
   public telegramBot: TelegramBot;
-  private historyManager: HistoryManagerInterface<unknown>;
-  private promptService: PromptServiceInterface<unknown>;
-  private allowedChats: string[];
+  private historyManager: HistoryManagerInterface<ConversationTurn>;
+  private promptService: PromptServiceInterface<ConversationTurn>;
   private command: string;
   private botInfo: TelegramBot.User | null = null;
-  private endOfConversationFn: (message: string) => any;
+  private endOfConversationFn?: (message: string) => TResult | void;
+  private resultSchema?: JSONSchema;
+  private maxResultRetries: number;
+  private streaming: boolean;
+  private streamEditIntervalMs: number;
+  private renderer: ReplyRenderer;
+  private conversationScope: ConversationScope;
+  private addressingRules: Required<AddressingRules>;
+  private commandRouter: CommandRouter<TResult>;
+  /**
+   * The hooks called for every incoming update, e.g. `bot.updates.on("my_chat_member", hook)`.
+   */
+  public readonly updates: UpdateDispatcher = new UpdateDispatcher();
+  private transcriber?: TranscriberInterface;
+  private echoTranscript: boolean;
+  private maxDocumentBytes: number;
+  private maxDocumentChars: number;
+  private confirmResult: boolean;
+  private formatResult: (result: TResult) => string;
+  private stateService?: StateServiceInterface<ConversationTurn>;
+  private rateLimiter?: RateLimiter;
+  private accessPolicy: AccessPolicy;
+  private unauthorizedReply: string;
+  private metrics: MetricsInterface;
+  /**
+   * The token usage and cost per chat and for the whole bot. Available when the stateService is set.
+   */
+  public readonly usage?: UsageTracker;
   private defaultResponse: string = "";
 
   /**
    * Creates a new instance of the Bot class.
    * @param {BotConfig} config - The configuration object for the Bot.
-   * @throws {Error} Throws an error if the telegramToken or allowedChats are missing.
+   * @throws {Error} Throws an error if the end of conversation handling or the state service for the rate limits are missing.
    * @returns {Bot} The newly created Bot instance.
    */
   constructor({
@@ -151,22 +620,98 @@ export class Bot {
     defaultResponse,
     telegramBot,
     endOfConversationFn,
-  }: BotConfig) {
-    if (!allowedChats?.length) {
-      throw new Error("Missing ALLOWED_CHAT_ID env variable");
+    resultSchema,
+    maxResultRetries,
+    streaming,
+    streamEditIntervalMs,
+    replyFormat,
+    replyPrefix,
+    conversationScope,
+    addressing,
+    commandDescription,
+    commands,
+    transcriber,
+    echoTranscript,
+    maxDocumentBytes,
+    maxDocumentChars,
+    confirmResult,
+    formatResult,
+    stateService,
+    rateLimits,
+    adminUsers,
+    accessRules,
+    unauthorizedReply,
+    modelPrices,
+    metrics,
+  }: BotConfig<TResult>) {
+    if (!endOfConversationFn && !resultSchema) {
+      throw new Error("Either endOfConversationFn or resultSchema is required");
+    }
+    if (rateLimits && !stateService) {
+      throw new Error("stateService is required for rateLimits");
     }
 
     this.telegramBot = telegramBot;
     this.historyManager = historyService;
     this.promptService = promptService;
-    this.allowedChats = allowedChats;
-    this.command = command;
+    this.command = command.replace(/^\//, "");
     this.defaultResponse = defaultResponse || "";
     this.endOfConversationFn = endOfConversationFn;
+    this.resultSchema = resultSchema;
+    this.maxResultRetries = maxResultRetries ?? DEFAULT_MAX_RESULT_RETRIES;
+    this.streaming = !!streaming && !resultSchema;
+    this.streamEditIntervalMs =
+      streamEditIntervalMs ?? DEFAULT_STREAM_EDIT_INTERVAL_MS;
+    this.renderer = new ReplyRenderer({
+      telegramBot,
+      format: replyFormat,
+      prefix: replyPrefix,
+    });
+    this.conversationScope = conversationScope || "user";
+    this.addressingRules = { ...DEFAULT_ADDRESSING_RULES, ...addressing };
+    this.transcriber = transcriber;
+    this.echoTranscript = !!echoTranscript;
+    this.maxDocumentBytes = maxDocumentBytes ?? DEFAULT_MAX_DOCUMENT_BYTES;
+    this.maxDocumentChars = maxDocumentChars ?? DEFAULT_MAX_DOCUMENT_CHARS;
+    this.confirmResult = !!confirmResult;
+    this.formatResult = formatResult || formatResultAsJSON;
+    this.stateService = stateService;
+    this.rateLimiter =
+      rateLimits && stateService
+        ? new RateLimiter({
+            stateService,
+            limits: rateLimits,
+            exemptUsers: adminUsers,
+          })
+        : undefined;
+    this.accessPolicy = new AccessPolicy({
+      rules: {
+        ...accessRules,
+        allowedChats: [
+          ...(allowedChats || []),
+          ...(accessRules?.allowedChats || []),
+        ],
+      },
+      adminUsers,
+      stateService,
+    });
+    this.unauthorizedReply = unauthorizedReply ?? DEFAULT_UNAUTHORIZED_REPLY;
+    this.metrics = metrics || new NoopMetrics();
+    this.usage = stateService
+      ? new UsageTracker({ stateService, prices: modelPrices })
+      : undefined;
+    this.commandRouter = new CommandRouter<TResult>([
+      {
+        command: this.command,
+        description: commandDescription || DEFAULT_COMMAND_DESCRIPTION,
+      },
+      ...(commands || []),
+    ]);
+    this.registerBuiltInCommands();
     return this;
   }
 
-  static createBot({
+  static createBot<TResult = any>({
     command,
     provider,
     openAIKey,
@@ -178,24 +723,99 @@ export class Bot {
     systemPromptFunc,
     endOfConversationFn,
     telegramBot,
-  }: BotCreateConfig) {
-    const promptService = this.createPromptService({
-      provider,
+    tools,
+    quickReplies,
+    maxToolIterations,
+    historyTTLSeconds,
+    maxHistoryTurns,
+    summarizeAfterTurns,
+    summaryKeepTurns,
+    maxPromptTokens,
+    maxCompletionTokens,
+    temperature,
+    resultSchema,
+    maxResultRetries,
+    streaming,
+    streamEditIntervalMs,
+    replyFormat,
+    replyPrefix,
+    conversationScope,
+    addressing,
+    commandDescription,
+    commands,
+    transcriber,
+    transcriptionModel,
+    echoTranscript,
+    maxDocumentBytes,
+    maxDocumentChars,
+    confirmResult,
+    formatResult,
+    rateLimits,
+    adminUsers,
+    accessRules,
+    unauthorizedReply,
+    modelPrices,
+    metrics,
+  }: BotCreateConfig<TResult>) {
+    const promptServiceConfig = {
       openAIKey,
       geminiKey,
-      model,
       systemPromptFunc,
-    });
+      tools:
+        quickReplies && !resultSchema
+          ? [...(tools || []), quickRepliesTool]
+          : tools,
+      maxToolIterations,
+      responseSchema:
+        resultSchema &&
+        createStructuredResponseSchema(resultSchema, quickReplies),
+      maxPromptTokens,
+      maxCompletionTokens,
+      temperature,
+      metrics,
+    };
+    const promptService = Array.isArray(provider)
+      ? new FailoverPromptService({
+          providers: provider.map((providerConfig) => ({
+            name: `${providerConfig.provider}:${providerConfig.model}`,
+            service: this.createPromptService({
+              ...promptServiceConfig,
+              provider: providerConfig.provider,
+              model: providerConfig.model,
+              ...(providerConfig.apiKey && {
+                openAIKey: providerConfig.apiKey,
+                geminiKey: providerConfig.apiKey,
+              }),
+            }),
+            timeoutMs: providerConfig.timeoutMs,
+            retries: providerConfig.retries,
+            backoffMs: providerConfig.backoffMs,
+          })),
+        })
+      : this.createPromptService({
+          ...promptServiceConfig,
+          provider,
+          model,
+        });
 
     const stateService = tableName
       ? new DynamoDBService({
           tableName,
+          ttlSeconds: historyTTLSeconds,
         })
-      : new LocalStateService();
+      : new LocalStateService({ ttlSeconds: historyTTLSeconds });
     const historyService = new BotMessageHistory({
       stateService,
+      maxTurns: maxHistoryTurns,
+      summarizer: summarizeAfterTurns
+        ? new ConversationSummarizer({
+            promptService,
+            maxTurns: summarizeAfterTurns,
+            keepTurns: summaryKeepTurns,
+          })
+        : undefined,
     });
-    const bot = new Bot({
+    const bot = new Bot<TResult>({
       promptService,
       command,
       allowedChats,
@@ -203,6 +823,41 @@ export class Bot {
       defaultResponse,
       telegramBot,
       endOfConversationFn,
+      resultSchema,
+      maxResultRetries,
+      streaming,
+      streamEditIntervalMs,
+      replyFormat,
+      replyPrefix,
+      conversationScope,
+      addressing,
+      commandDescription,
+      commands,
+      transcriber:
+        typeof transcriber === "string"
+          ? this.createTranscriber({
+              provider: transcriber,
+              openAIKey,
+              geminiKey,
+              // Gemini chat models accept audio, OpenAI ones need a dedicated model
+              model:
+                transcriber === "gemini"
+                  ? transcriptionModel || model
+                  : transcriptionModel,
+            })
+          : transcriber,
+      echoTranscript,
+      maxDocumentBytes,
+      maxDocumentChars,
+      confirmResult,
+      formatResult,
+      stateService,
+      rateLimits,
+      adminUsers,
+      accessRules,
+      unauthorizedReply,
+      modelPrices,
+      metrics,
     });
     return bot;
   }
@@ -213,13 +868,31 @@ export class Bot {
     geminiKey,
     model,
     systemPromptFunc,
+    tools,
+    maxToolIterations,
+    responseSchema,
+    maxPromptTokens,
+    maxCompletionTokens,
+    temperature,
+    metrics,
   }: {
-    provider: "openai" | "gemini";
+    provider: BotProvider;
     openAIKey?: string;
     geminiKey?: string;
-    model: string;
+    model?: string;
     systemPromptFunc: (username?: string) => string;
-  }): PromptServiceInterface<unknown> {
+    tools?: BotTool[];
+    maxToolIterations?: number;
+    responseSchema?: JSONSchema;
+    maxPromptTokens?: number;
+    maxCompletionTokens?: number;
+    temperature?: number;
+    metrics?: MetricsInterface;
+  }): PromptServiceInterface<ConversationTurn> {
+    if (!model) {
+      throw new Error(`Model is required for ${provider} provider`);
+    }
+
     // Validate required API keys based on provider
     if (provider === "openai" && !openAIKey) {
       throw new Error("OpenAI API key is required when using OpenAI provider");
@@ -228,6 +901,8 @@ export class Bot {
       throw new Error("Gemini API key is required when using Gemini provider");
     }
 
+    const toolRegistry = tools?.length ? new ToolRegistry(tools) : undefined;
+
     // Create the appropriate prompt service based on provider
     if (provider === "openai") {
       const openai = new OpenAI({
@@ -237,180 +912,1559 @@ export class Bot {
         openai,
         model: model as ChatCompletionCreateParams["model"],
         systemPromptFunc,
+        tools: toolRegistry,
+        maxToolIterations,
+        responseSchema,
+        maxPromptTokens,
+        maxCompletionTokens,
+        temperature,
+        metrics,
       });
     } else if (provider === "gemini") {
       return new GeminiPromptService({
         apiKey: geminiKey!,
         modelName: model,
         systemPromptFunc,
+        tools: toolRegistry,
+        maxToolIterations,
+        responseSchema,
+        maxPromptTokens,
+        maxCompletionTokens,
+        temperature,
+        metrics,
       });
     } else {
       throw new Error(`Unsupported provider: ${provider}`);
     }
   }
 
+  private static createTranscriber({
+    provider,
+    openAIKey,
+    geminiKey,
+    model,
+  }: {
+    provider: BotProvider;
+    openAIKey?: string;
+    geminiKey?: string;
+    model?: string;
+  }): TranscriberInterface {
+    if (provider === "openai") {
+      if (!openAIKey) {
+        throw new Error("OpenAI API key is required for OpenAI transcription");
+      }
+      return new OpenAITranscriber({
+        openai: new OpenAI({ apiKey: openAIKey }),
+        model,
+      });
+    }
+    if (provider === "gemini") {
+      if (!geminiKey) {
+        throw new Error("Gemini API key is required for Gemini transcription");
+      }
+      if (!model) {
+        throw new Error("Model is required for Gemini transcription");
+      }
+      return new GeminiTranscriber({ apiKey: geminiKey, modelName: model });
+    }
+    throw new Error(`Unsupported transcription provider: ${provider}`);
+  }
+
   private async getBotInfo() {
     if (this.botInfo) return this.botInfo;
     const botInfo = await this.telegramBot.getMe();
     this.botInfo = botInfo;
+    return botInfo;
+  }
+
+  /**
+   * Returns the key of the conversation history the message belongs to.
+   * In the "thread" scope the history is keyed by the bot reply the user answers to,
+   * so a new message which is not a reply starts a new conversation.
+   * @param {BotMessageInfo} messageInfo - received message info
+   * @returns {string} - the history key
+   */
+  private getConversationKey({
+    userId,
+    chatId,
+    replyToMessageId,
+    messageId,
+  }: BotMessageInfo): string {
+    switch (this.conversationScope) {
+      case "chat":
+        return `chat:${chatId}`;
+      case "user+chat":
+        return `chat:${chatId}:user:${userId}`;
+      case "thread":
+        return this.getThreadKey(chatId, replyToMessageId ?? messageId);
+      default:
+        return String(userId);
+    }
+  }
+
+  /**
+   * Returns the command of the conversation, stored in the metadata of its user turns.
+   * Conversations without a command belong to the main command.
+   * @param {ConversationTurn[]} history - the conversation history
+   * @returns {BotCommand | undefined} - the command of the conversation
+   */
+  private getActiveCommand(
+    history: ConversationTurn[]
+  ): BotCommand<TResult> | undefined {
+    const commandName = [...history]
+      .reverse()
+      .find(({ role, metadata }) => role === "user" && metadata?.command)
+      ?.metadata?.command;
+    return this.commandRouter.get(
+      typeof commandName === "string" ? commandName : this.command
+    );
+  }
+
+  /**
+   * Returns the key of a reply chain conversation.
+   * @param {number} chatId - the chat of the reply chain
+   * @param {number} messageId - the message of the reply chain
+   * @returns {string} - the history key
+   */
+  private getThreadKey(chatId: number, messageId: number): string {
+    return `chat:${chatId}:thread:${messageId}`;
   }
 
   /**
    * Initiates a conversation with the user based on the message
    * If the message is a JSON object, it marks the end of the conversation
-   * @param {TelegramBot.Message} message - received user message
-   * @returns {Promise<string | void>} - conversation result returned from endOfConversationFn
+   * @param {BotMessageInfo} messageInfo - received message info
+   * @param {BotCommand} requestedCommand - the command invoked by the message, if any
+   * @param {ConversationTurn[]} contextTurns - the turns added to the conversation before the message, e.g. an uploaded document
+   * @returns {Promise<BotConversationResult<TResult> | void>} - conversation result returned from endOfConversationFn or validated against resultSchema, and the command of the conversation
    */
-  private async respond(messageInfo: BotMessageInfo): Promise<string | void> {
-    const { userId, messageId, username, text, chatId } = messageInfo;
+  private async respond(
+    messageInfo: BotMessageInfo,
+    requestedCommand?: BotCommand<TResult>,
+    contextTurns: ConversationTurn[] = []
+  ): Promise<BotConversationResult<TResult> | void> {
+    const { userId, messageId, username, text, chatId, attachments } =
+      messageInfo;
+    let streamingReply: StreamingReply | undefined;
+    const conversationKey = this.getConversationKey(messageInfo);
+    const isSharedConversation = this.conversationScope !== "user";
+    // Every model call is counted, including summaries and failed failover attempts
+    const usageUpdates: Promise<void>[] = [];
+    const onUsage = (usage: TokenUsage, model: string) => {
+      usageUpdates.push(this.trackUsage(messageInfo, usage, model));
+    };
 
     try {
-      const history = await this.historyManager.getHistoryById(String(userId));
+      let history = await measure(this.metrics, "bot.history_load", {}, () =>
+        this.historyManager.getHistoryById(conversationKey)
+      );
+      const activeCommand = history.length
+        ? this.getActiveCommand(history)
+        : undefined;
+      const command =
+        requestedCommand ||
+        activeCommand ||
+        this.commandRouter.get(this.command)!;
+
+      // Invoking another command starts a new conversation
+      if (activeCommand && activeCommand.command !== command.command) {
+        history = [];
+      }
+      history.push(...contextTurns);
+      const historyLength = history.length;
       const isValidUsername = /^[a-zA-Z0-9_-]{1,64}$/.test(username);
+      const promptUsername = isValidUsername ? username : String(userId);
+
+      if (this.streaming) {
+        streamingReply = new StreamingReply({
+          telegramBot: this.telegramBot,
+          renderer: this.renderer,
+          chatId,
+          replyToMessageId: messageId,
+          editIntervalMs: this.streamEditIntervalMs,
+        });
+        await streamingReply.start();
+      }
 
       // Get the response from the prompt service
-      const newHistory = await this.promptService.makePrompt(
-        isValidUsername ? username : userId?.toString(),
-        text,
-        history
+      let newHistory = await measure(
+        this.metrics,
+        "bot.prompt",
+        { command: command.command },
+        () =>
+          this.promptService.makePrompt(promptUsername, text, history, {
+            onText: streamingReply?.update,
+            attributeAuthors: isSharedConversation,
+            systemPrompt: command.systemPromptFunc?.(promptUsername),
+            attachments,
+            loadAttachment: this.loadAttachment,
+            onUsage,
+          })
       );
+      newHistory
+        .slice(historyLength)
+        .filter(({ role }) => role === "user")
+        .forEach((turn) => {
+          turn.metadata = {
+            ...turn.metadata,
+            command: command.command,
+            messageId,
+          };
+        });
       const lastLLMMessage = this.promptService.getLastMessage(newHistory);
 
-      log(FROM.BOT, TYPE.INFO, "LLM response:", lastLLMMessage);
+      log(FROM.BOT, TYPE.DEBUG, "LLM response:", { text: lastLLMMessage });
 
       // Handle case where no message was found
       if (!lastLLMMessage) {
         log(FROM.BOT, TYPE.ERROR, "No LLM response found");
+        await streamingReply?.discard();
         return;
       }
 
-      // Check if the response is a JSON object which marks the end of the conversation
-      const result = lastLLMMessage.match(/^(\{.+\})$/m)?.[0];
-      const endOfConversation = this.endOfConversationFn(lastLLMMessage);
-      if (!!endOfConversation) {
-        return endOfConversation;
+      let reply = lastLLMMessage;
+      let options = getQuickReplies(newHistory.slice(historyLength));
+      let result: TResult | undefined;
+      if (this.resultSchema) {
+        const structured = await this.getStructuredResponse(
+          promptUsername,
+          lastLLMMessage,
+          newHistory,
+          command,
+          onUsage
+        );
+        newHistory = structured.history;
+        if (structured.result !== undefined) {
+          result = structured.result;
+        } else if (!structured.reply) {
+          // The user is told about the failure and the history is saved, so the conversation can go on
+          log(FROM.BOT, TYPE.ERROR, "Invalid structured response");
+          reply = "Sorry, I could not answer properly, please try again";
+          options = [];
+        } else {
+          reply = structured.reply;
+          options = structured.options || [];
+        }
+      } else {
+        const endOfConversation = this.endOfConversationFn?.(lastLLMMessage);
+        if (!!endOfConversation) {
+          result = endOfConversation;
+        }
+      }
+
+      if (result !== undefined) {
+        // The streamed result is not meant for the user
+        await streamingReply?.discard();
+        if (!this.confirmResult) return { result, command };
+        await this.requestConfirmation(
+          messageInfo,
+          conversationKey,
+          newHistory,
+          result,
+          onUsage
+        );
+        return;
       }
 
       // Otherwise continue conversation
-      await this.telegramBot.sendMessage(chatId, `🤖 ${lastLLMMessage}`, {
-        reply_to_message_id: messageId,
-      });
+      const replyMarkup = createQuickRepliesKeyboard(options);
+      const replyMessageId = await measure(
+        this.metrics,
+        "bot.send",
+        { streaming: !!streamingReply },
+        async () => {
+          if (streamingReply) {
+            await streamingReply.finish(reply, replyMarkup);
+            return streamingReply.messageId;
+          }
+          const replyMessage = await this.renderer.send(chatId, reply, {
+            replyToMessageId: messageId,
+            replyMarkup,
+          });
+          return replyMessage?.message_id;
+        }
+      );
 
-      // Update the conversation history
-      await this.historyManager.setHistoryById(String(userId), newHistory);
+      // Update the conversation history, a reply chain continues from the bot reply
+      await measure(this.metrics, "bot.history_save", {}, () =>
+        this.historyManager.setHistoryById(
+          this.conversationScope === "thread" && replyMessageId
+            ? this.getThreadKey(chatId, replyMessageId)
+            : conversationKey,
+          newHistory,
+          { onUsage }
+        )
+      );
     } catch (err) {
       log(FROM.BOT, TYPE.ERROR, "Conversation error:", err);
+      await streamingReply?.discard();
       return;
+    } finally {
+      await Promise.all(usageUpdates);
     }
 
     return;
   }
 
   /**
-   * Parses the message and returns the message info object
-   * @param {TelegramBot.Message} message - received user message
-   * @returns {BotMessageInfo} - message info object
+   * Shows the result to the user with Confirm, Edit and Cancel buttons.
+   * The result is kept in the metadata of the last turn until the user answers.
+   * @param {BotMessageInfo} messageInfo - received message info
+   * @param {string} conversationKey - the key of the conversation history
+   * @param {ConversationTurn[]} history - the conversation history including the result
+   * @param {TResult} result - the conversation result
+   * @param {PromptOptions["onUsage"]} onUsage - counts the usage of the summary made while the history is saved
    */
-  private async getMessageInfo(
-    message: TelegramBot.Message
-  ): Promise<BotMessageInfo> {
-    const chatId = message.chat?.id;
-    const userId = message.from?.id;
-    const messageId = message.message_id;
+  private async requestConfirmation(
+    { chatId, messageId, userId }: BotMessageInfo,
+    conversationKey: string,
+    history: ConversationTurn[],
+    result: TResult,
+    onUsage?: PromptOptions["onUsage"]
+  ) {
+    // Only the author of the request may confirm it, also in a group chat
+    const lastTurn = history[history.length - 1];
+    lastTurn.metadata = {
+      ...lastTurn.metadata,
+      pendingResult: result,
+      pendingResultUserId: userId,
+    };
 
-    const isAllowedChat = !!this.allowedChats?.includes(String(chatId));
+    // A long result is split into several messages, the buttons are under the last one
+    const summaryMessage = await this.renderer.sendParts(
+      chatId,
+      this.renderer.renderPlain(
+        `Please confirm:\n${this.formatResult(result)}`
+      ),
+      {
+        replyToMessageId: messageId,
+        replyMarkup: createConfirmationKeyboard(),
+      }
+    );
+    await this.historyManager.setHistoryById(
+      this.conversationScope === "thread" && summaryMessage?.message_id
+        ? this.getThreadKey(chatId, summaryMessage.message_id)
+        : conversationKey,
+      history,
+      { onUsage }
+    );
+  }
 
-    const text = message.text?.replace(this.command, "").trim() || "";
+  /**
+   * Handles the answer of the user to the result confirmation.
+   * Presses of anyone but the author of the request are refused.
+   * @param {BotMessageInfo} messageInfo - the message info of the pressed button
+   * @param {ConfirmationAction} action - the pressed button
+   * @param {TelegramBot.Message} message - the message of the pressed button, passed to the result callbacks
+   * @param {BotResultCallback} callback - called with the result when the user confirms
+   * @returns {Promise<TResult | void>} - the confirmed result
+   */
+  private async processConfirmation(
+    messageInfo: BotMessageInfo,
+    action: ConfirmationAction,
+    message: TelegramBot.Message,
+    callback?: BotResultCallback<TResult>
+  ): Promise<TResult | void> {
+    const { chatId, messageId } = messageInfo;
+    const reply = (text: string) =>
+      this.telegramBot.sendMessage(chatId, `${this.renderer.prefix}${text}`, {
+        reply_to_message_id: messageId,
+      });
+    const conversationKey = this.getConversationKey(messageInfo);
+    const history = await this.historyManager.getHistoryById(conversationKey);
+    const lastTurn = history[history.length - 1];
+    const result = lastTurn?.metadata?.pendingResult as TResult | undefined;
 
-    const username = message.from?.username || message.from?.first_name || "";
-    const isBot = !!message.from?.is_bot;
-    const mention = (!!username ? "@" : "") + username;
-    const isTextMessage = message.hasOwnProperty("text");
+    if (result === undefined) {
+      await reply("Nothing to confirm");
+      return;
+    }
 
-    return {
-      messageId,
+    if (lastTurn.metadata?.pendingResultUserId !== messageInfo.userId) {
+      await reply("Only the author of the request can confirm it");
+      return;
+    }
+
+    if (message.reply_to_message) {
+      await this.removeKeyboard(message.reply_to_message);
+    }
+
+    if (action === "edit") {
+      // The conversation continues with the history intact, only the result is dropped
+      const { pendingResult, pendingResultUserId, ...metadata } =
+        lastTurn.metadata!;
+      lastTurn.metadata = metadata;
+      const replyMessage = await reply("What would you like to change?");
+      await this.historyManager.setHistoryById(
+        this.conversationScope === "thread" && replyMessage?.message_id
+          ? this.getThreadKey(chatId, replyMessage.message_id)
+          : conversationKey,
+        history
+      );
+      return;
+    }
+
+    await this.historyManager.deleteHistoryById(conversationKey);
+    if (action === "cancel") {
+      await reply("Conversation cancelled");
+      return;
+    }
+
+    await reply("Confirmed");
+    await this.finishConversation(
+      result,
+      this.getActiveCommand(history),
+      message,
+      callback
+    );
+    return result;
+  }
+
+  /**
+   * Parses the structured response of the model and validates the result against resultSchema.
+   * When validation fails, the model is asked to fix its answer up to maxResultRetries times.
+   * @param username - The username passed to the prompt service.
+   * @param lastLLMMessage - The raw text of the model response.
+   * @param history - The conversation history including the response.
+   * @param command - The command of the conversation.
+   * @param onUsage - Counts the usage of the correction prompts.
+   * @returns The reply with its quick reply options or the validated result, and the updated history.
+   */
+  private async getStructuredResponse(
+    username: string,
+    lastLLMMessage: string,
+    history: ConversationTurn[],
+    command: BotCommand<TResult>,
+    onUsage?: PromptOptions["onUsage"]
+  ): Promise<{
+    reply?: string;
+    options?: string[];
+    result?: TResult;
+    history: ConversationTurn[];
+  }> {
+    let response = parseStructuredResponse<TResult>(
+      lastLLMMessage,
+      this.resultSchema!
+    );
+
+    for (
+      let retry = 0;
+      response.errors.length && retry < this.maxResultRetries;
+      retry++
+    ) {
+      log(FROM.BOT, TYPE.ERROR, "Invalid LLM response:", response.errors);
+      const invalidHistory = history;
+      history = await measure(
+        this.metrics,
+        "bot.prompt",
+        { command: command.command, retry: true },
+        () =>
+          this.promptService.makePrompt(
+            username,
+            `Your last response is invalid: ${response.errors.join(
+              "; "
+            )}. Respond again with a corrected JSON object.`,
+            invalidHistory,
+            {
+              attributeAuthors: this.conversationScope !== "user",
+              systemPrompt: command.systemPromptFunc?.(username),
+              loadAttachment: this.loadAttachment,
+              onUsage,
+            }
+          )
+      );
+      const correctedMessage = this.promptService.getLastMessage(history);
+      if (!correctedMessage) break;
+      response = parseStructuredResponse<TResult>(
+        correctedMessage,
+        this.resultSchema!
+      );
+    }
+
+    return {
+      reply: response.reply,
+      options: response.options,
+      result: response.result,
+      history,
+    };
+  }
+
+  /**
+   * Downloads an attachment of the conversation from Telegram.
+   * @param {ConversationAttachment} attachment - the attachment to download
+   * @returns {Promise<AttachmentContent>} - the content of the attachment
+   */
+  private loadAttachment = async (
+    attachment: ConversationAttachment
+  ): Promise<AttachmentContent> => {
+    if (!attachment.fileId) {
+      throw new Error("Attachment has no file ID");
+    }
+    return {
+      mimeType: attachment.mimeType || "application/octet-stream",
+      data: await downloadFile(this.telegramBot, attachment.fileId),
+    };
+  };
+
+  /**
+   * Transcribes the audio attached to the message and appends the transcript to its text,
+   * so it follows the same conversation flow as typed input.
+   * @param {BotMessageInfo} messageInfo - received message info
+   * @returns {Promise<BotMessageInfo | void>} - the message info with the transcript, or nothing if the transcription failed
+   */
+  private async transcribeAudio(
+    messageInfo: BotMessageInfo
+  ): Promise<BotMessageInfo | void> {
+    const { attachments, text, chatId, messageId } = messageInfo;
+    const audio = attachments.find(({ type }) => type === "audio");
+    if (!audio || !this.transcriber) return messageInfo;
+
+    let transcript = "";
+    try {
+      transcript = await this.transcriber.transcribe(
+        await this.loadAttachment(audio)
+      );
+    } catch (err) {
+      log(FROM.BOT, TYPE.ERROR, "Transcription error:", err);
+    }
+    if (!transcript) {
+      await this.telegramBot.sendMessage(
+        chatId,
+        `${this.renderer.prefix}Sorry, I could not recognize the voice message`,
+        { reply_to_message_id: messageId }
+      );
+      return;
+    }
+
+    if (this.echoTranscript) {
+      await this.telegramBot.sendMessage(chatId, `🎙 ${transcript}`, {
+        reply_to_message_id: messageId,
+      });
+    }
+    return {
+      ...messageInfo,
+      text: [text, transcript].filter(Boolean).join("\n"),
+    };
+  }
+
+  /**
+   * Extracts the text of the documents attached to the message as system turns,
+   * so the documents stay in the context for the rest of the conversation.
+   * The user is told when a document is too large or its type is not supported.
+   * @param {BotMessageInfo} messageInfo - received message info
+   * @returns {Promise<ConversationTurn[] | void>} - the document turns, or nothing if a document could not be read
+   */
+  private async readDocuments(
+    messageInfo: BotMessageInfo
+  ): Promise<ConversationTurn[] | void> {
+    const { attachments, chatId, messageId } = messageInfo;
+    const reply = (text: string) =>
+      this.telegramBot.sendMessage(chatId, `${this.renderer.prefix}${text}`, {
+        reply_to_message_id: messageId,
+      });
+    const turns: ConversationTurn[] = [];
+
+    for (const document of attachments) {
+      if (document.type !== "document") continue;
+      const name = document.fileName || "document";
+
+      const format = getDocumentFormat(document);
+      if (!format) {
+        await reply(
+          `${name} is not supported. Supported file types: ${SUPPORTED_DOCUMENT_FORMATS.join(
+            ", "
+          )}`
+        );
+        return;
+      }
+      if ((document.fileSize ?? 0) > this.maxDocumentBytes) {
+        await reply(
+          `${name} is too large. The limit is ${Math.floor(
+            this.maxDocumentBytes / 1024
+          )} KB`
+        );
+        return;
+      }
+
+      let text = "";
+      try {
+        const { data } = await this.loadAttachment(document);
+        text = await extractDocumentText(format, data);
+      } catch (err) {
+        log(FROM.BOT, TYPE.ERROR, "Document reading error:", err);
+        await reply(`Sorry, I could not read ${name}`);
+        return;
+      }
+      if (!text) {
+        await reply(`${name} contains no text`);
+        return;
+      }
+      if (text.length > this.maxDocumentChars) {
+        await reply(
+          `${name} is too long. The limit is ${this.maxDocumentChars} characters`
+        );
+        return;
+      }
+
+      turns.push(
+        createTurn("system", `Content of the document "${name}":\n${text}`, {
+          attachments: [document],
+          metadata: { document: name },
+        })
+      );
+    }
+
+    return turns;
+  }
+
+  /**
+   * Parses the message and returns the message info object
+   * The caption of a photo or a document is used as its text
+   * @param {TelegramBot.Message} message - received user message
+   * @returns {BotMessageInfo} - message info object
+   */
+  private async getMessageInfo(
+    message: TelegramBot.Message
+  ): Promise<BotMessageInfo> {
+    const chatId = message.chat?.id;
+    const userId = message.from?.id;
+    const messageId = message.message_id;
+    const replyToMessageId = message.reply_to_message?.message_id;
+
+    const isPrivateChat = message.chat?.type === "private";
+
+    const botInfo = await this.getBotInfo();
+    const messageText = message.text ?? message.caption ?? "";
+    const parsedCommand = this.commandRouter.parse(
+      messageText,
+      botInfo?.username
+    );
+    const command = parsedCommand?.command;
+    const mentions = getBotMentions(message, botInfo);
+    const isBotMentioned = !!mentions.length;
+    const text = parsedCommand
+      ? parsedCommand.args
+      : removeBotMentions(messageText, mentions);
+
+    const telegramUsername = message.from?.username;
+    const username = telegramUsername || message.from?.first_name || "";
+    const isBot = !!message.from?.is_bot;
+    const mention = (!!username ? "@" : "") + username;
+    const isTextMessage =
+      message.hasOwnProperty("text") || message.hasOwnProperty("caption");
+    // Audio is only accepted when it can be transcribed
+    const attachments = getMessageAttachments(message).filter(
+      ({ type }) => type !== "audio" || !!this.transcriber
+    );
+
+    return {
+      messageId,
       username,
+      telegramUsername,
       mention,
       userId,
       text,
       chatId,
       isBot,
-      isAllowedChat,
+      isPrivateChat,
+      isBotMentioned,
       isTextMessage,
+      replyToMessageId,
+      command,
+      attachments,
     };
   }
 
   /**
-   * Validates the message according to given rules
+   * Validates the message according to given rules and checks that the user is authorized
+   * The message must address the bot in one of the ways configured for the chat type
    * @param {TelegramBot.Message} message - received user message
+   * @param {boolean} isButtonPress - true if the message was made from a press of a bot button, which always addresses the bot
    * @returns {boolean} - true if the message is valid
    */
   private async getValidMessageInfo(
-    message: TelegramBot.Message
+    message: TelegramBot.Message,
+    isButtonPress: boolean = false
   ): Promise<BotMessageInfo | void> {
     if (!message) return;
     const messageInfo = await this.getMessageInfo(message);
     const botInfo = await this.getBotInfo();
-    const { userId, text, isBot, isAllowedChat, isTextMessage } = messageInfo;
+    const {
+      userId,
+      text,
+      isBot,
+      isTextMessage,
+      command,
+      attachments,
+      isPrivateChat,
+      isBotMentioned,
+    } = messageInfo;
+    const hasAttachments = !!attachments.length;
 
     const isReplyToBot = message.reply_to_message?.from?.id === botInfo?.id;
+    const modes = isPrivateChat
+      ? this.addressingRules.privateChats
+      : this.addressingRules.groupChats;
     const isAddressingBot =
-      isTextMessage && (isReplyToBot || message.text?.startsWith(this.command));
+      (isTextMessage || hasAttachments) &&
+      (isButtonPress ||
+        modes.includes("any") ||
+        (modes.includes("command") && !!command) ||
+        (modes.includes("mention") && isBotMentioned) ||
+        (modes.includes("reply") && isReplyToBot));
 
+    // A bare mention is answered with the help
     const result =
-      !!userId && !!text && !isBot && isAllowedChat && isAddressingBot;
+      !!userId &&
+      (!!text || !!command || hasAttachments || isBotMentioned) &&
+      !isBot &&
+      isAddressingBot;
 
     if (!result) {
-      log(FROM.BOT, TYPE.ERROR, "Invalid message:", {
+      log(FROM.BOT, TYPE.DEBUG, "Ignored message:", {
         userId,
         text,
+        command,
+        hasAttachments,
         isBot,
-        isAllowedChat,
         isAddressingBot,
       });
       return;
     }
+    if (!(await this.isAuthorized(messageInfo))) return;
     return messageInfo;
   }
 
   /**
-   * Processes the message, initiates a conversation and processes the conversation result
+   * Checks the message against the access policy and tells the user when they are not authorized.
+   * The message is refused when the stored access lists cannot be read.
+   * @param {BotMessageInfo} messageInfo - received message info
+   * @returns {Promise<boolean>} - true if the user can use the bot in the chat and the command
+   */
+  private async isAuthorized(messageInfo: BotMessageInfo): Promise<boolean> {
+    const {
+      userId,
+      telegramUsername,
+      chatId,
+      messageId,
+      isPrivateChat,
+      command,
+    } = messageInfo;
+    let denial;
+    try {
+      denial = await this.accessPolicy.authorize({
+        userId,
+        username: telegramUsername,
+        chatId,
+        isPrivateChat,
+        command,
+      });
+    } catch (err) {
+      log(FROM.BOT, TYPE.ERROR, "Access policy error:", err);
+      return false;
+    }
+    if (!denial) return true;
+
+    log(FROM.BOT, TYPE.INFO, "Unauthorized message:", {
+      userId,
+      chatId,
+      command,
+      denial,
+    });
+    if (this.unauthorizedReply) {
+      await this.telegramBot.sendMessage(
+        chatId,
+        `${this.renderer.prefix}${this.unauthorizedReply}`,
+        { reply_to_message_id: messageId }
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Registers /help, /start, /reset, /cancel and the other built-in commands unless commands with the same names are provided.
+   */
+  private registerBuiltInCommands() {
+    const builtInCommands: BotCommand<TResult>[] = [
+      {
+        command: "help",
+        description: "Show available commands",
+        handler: (message) => this.sendHelp(message.chat),
+      },
+      {
+        command: "start",
+        description: "Start the bot",
+        handler: (message) => this.sendHelp(message.chat),
+      },
+      {
+        command: "reset",
+        description: "Start the conversation over",
+        handler: (message) =>
+          this.clearConversation(
+            message,
+            `${this.renderer.prefix}Conversation reset`
+          ),
+      },
+      {
+        command: "cancel",
+        description: "Cancel the current conversation",
+        handler: (message) =>
+          this.clearConversation(
+            message,
+            `${this.renderer.prefix}Conversation cancelled`
+          ),
+      },
+      {
+        command: "context",
+        description: "Show a summary of the current conversation",
+        handler: (message) => this.sendConversationSummary(message),
+      },
+      {
+        command: "undo",
+        description: "Undo the last exchange",
+        handler: (message) => this.undoLastExchange(message),
+      },
+      ...(this.usage
+        ? [
+            {
+              command: "usage",
+              description: "Show the token usage and cost (admins only)",
+              handler: (message: TelegramBot.Message) =>
+                this.sendUsage(message),
+            },
+          ]
+        : []),
+      ...(this.stateService
+        ? [
+            {
+              command: "allow",
+              description: "Allow a user or this chat (admins only)",
+              handler: (message: TelegramBot.Message) =>
+                this.changeAccess(message, "allow"),
+            },
+            {
+              command: "block",
+              description: "Block a user or this chat (admins only)",
+              handler: (message: TelegramBot.Message) =>
+                this.changeAccess(message, "block"),
+            },
+          ]
+        : []),
+    ];
+    builtInCommands
+      .filter(({ command }) => !this.commandRouter.has(command))
+      .forEach((command) => this.commandRouter.register(command));
+  }
+
+  /**
+   * Publishes the command list to the Telegram command menu.
+   * @returns {Promise<void>} A promise that resolves when the commands are published.
+   */
+  public async publishCommands(): Promise<void> {
+    try {
+      await this.telegramBot.setMyCommands(
+        this.commandRouter.toTelegramCommands()
+      );
+    } catch (err) {
+      log(FROM.BOT, TYPE.ERROR, "Commands publishing error:", err);
+    }
+  }
+
+  /**
+   * Sends the default response followed by how to address the bot in the chat and the list of available commands.
+   * @param {TelegramBot.Chat} chat - the chat to send the help to
+   */
+  private async sendHelp(chat: TelegramBot.Chat) {
+    const botInfo = await this.getBotInfo();
+    const addressing = describeAddressing(
+      chat.type === "private"
+        ? this.addressingRules.privateChats
+        : this.addressingRules.groupChats,
+      botInfo?.username || ""
+    );
+    const commandList = this.commandRouter
+      .list()
+      .map(({ command, description }) => `/${command} - ${description}`)
+      .join("\n");
+    await this.telegramBot.sendMessage(
+      chat.id,
+      [this.defaultResponse, addressing, commandList]
+        .filter(Boolean)
+        .join("\n\n")
+    );
+  }
+
+  /**
+   * Clears the conversation the message belongs to.
    * @param {TelegramBot.Message} message - received user message
-   * @returns
+   * @param {string} response - the confirmation sent to the user
+   */
+  private async clearConversation(
+    message: TelegramBot.Message,
+    response: string
+  ) {
+    const messageInfo = await this.getMessageInfo(message);
+    await this.historyManager.deleteHistoryById(
+      this.getConversationKey(messageInfo)
+    );
+    await this.telegramBot.sendMessage(messageInfo.chatId, response, {
+      reply_to_message_id: messageInfo.messageId,
+    });
+  }
+
+  /**
+   * Sends a summary of the conversation the message belongs to.
+   * @param {TelegramBot.Message} message - received user message
+   */
+  private async sendConversationSummary(message: TelegramBot.Message) {
+    const messageInfo = await this.getMessageInfo(message);
+    const history = await this.historyManager.getHistoryById(
+      this.getConversationKey(messageInfo)
+    );
+    const exchanges = history.filter(
+      ({ role, metadata }) => role === "user" && metadata?.command
+    );
+
+    let summary = `${this.renderer.prefix}No active conversation`;
+    if (exchanges.length) {
+      const lastQuestion = exchanges[exchanges.length - 1];
+      const lastAnswer = this.promptService.getLastMessage(history);
+      summary = [
+        `${this.renderer.prefix}Command: /${
+          this.getActiveCommand(history)?.command
+        }`,
+        `Started: ${history[0].createdAt}`,
+        `Messages: ${exchanges.length}`,
+        `Last message: ${this.truncate(lastQuestion.text)}`,
+        ...(lastAnswer ? [`Last answer: ${this.truncate(lastAnswer)}`] : []),
+      ].join("\n");
+    }
+
+    await this.telegramBot.sendMessage(messageInfo.chatId, summary, {
+      reply_to_message_id: messageInfo.messageId,
+    });
+  }
+
+  /**
+   * Removes the last user message and everything after it from the conversation.
+   * @param {TelegramBot.Message} message - received user message
+   */
+  private async undoLastExchange(message: TelegramBot.Message) {
+    const messageInfo = await this.getMessageInfo(message);
+    const conversationKey = this.getConversationKey(messageInfo);
+    const history = await this.historyManager.getHistoryById(conversationKey);
+    const lastExchangeIndex = this.getLastExchangeIndex(history);
+
+    let response = `${this.renderer.prefix}Nothing to undo`;
+    if (lastExchangeIndex > 0) {
+      await this.historyManager.setHistoryById(
+        conversationKey,
+        history.slice(0, lastExchangeIndex)
+      );
+      response = `${this.renderer.prefix}Last exchange undone`;
+    } else if (lastExchangeIndex === 0) {
+      await this.historyManager.deleteHistoryById(conversationKey);
+      response = `${this.renderer.prefix}Last exchange undone`;
+    }
+
+    await this.telegramBot.sendMessage(messageInfo.chatId, response, {
+      reply_to_message_id: messageInfo.messageId,
+    });
+  }
+
+  /**
+   * Returns the index of the user turn which started the last exchange.
+   * Correction requests of structured results are not tagged, so they belong to the exchange.
+   * @param {ConversationTurn[]} history - the conversation history
+   * @returns {number} - the index of the turn, or -1 if there is no exchange
+   */
+  private getLastExchangeIndex(history: ConversationTurn[]): number {
+    return history.reduce(
+      (lastIndex, { role, metadata }, index) =>
+        role === "user" && metadata?.command ? index : lastIndex,
+      -1
+    );
+  }
+
+  /**
+   * Shortens the text to fit into a summary line.
+   * @param {string} text - the text to shorten
+   * @returns {string} - the shortened text
+   */
+  private truncate(text: string): string {
+    return text.length > 100 ? `${text.slice(0, 100)}…` : text;
+  }
+
+  /**
+   * Processes a normalized update received through a webhook, a Lambda or polling.
+   * The subscribed hooks are called first. Messages and button presses start or continue
+   * a conversation, an edited message re-runs the last exchange, and channel posts
+   * and membership changes are only passed to the hooks.
+   * @param {BotUpdate} update - received update
+   * @param {BotResultCallback} callback - called with the result when the conversation ends
+   * @returns {Promise<TResult | void>} - the conversation result, if the conversation has ended
+   */
+  public async processUpdate(
+    update: BotUpdate,
+    callback?: BotResultCallback<TResult>
+  ): Promise<TResult | void> {
+    if (!getCorrelationId()) {
+      return withCorrelationId(update.updateId?.toString(), () =>
+        this.processUpdate(update, callback)
+      );
+    }
+    log(FROM.BOT, TYPE.INFO, `Update received: ${update.type}`);
+    // Messages are claimed by the same key as in processMessage, so an update is claimed only once
+    const updateKey =
+      update.type === "message" ||
+      update.type === "callback_query" ||
+      update.type === "edited_message"
+        ? this.getUpdateKey(update.payload)
+        : update.updateId !== undefined
+        ? `update:${update.updateId}`
+        : undefined;
+
+    return this.processOnce(updateKey, async () => {
+      await this.updates.dispatch(update);
+
+      switch (update.type) {
+        case "message":
+        case "callback_query":
+          return this.handleIncomingMessage(update.payload, callback);
+        case "edited_message":
+          return this.handleEditedMessage(update.payload, callback);
+        default:
+          return;
+      }
+    });
+  }
+
+  /**
+   * Counts the message against the rate limits and tells the user when a limit is hit.
+   * Only the first message over the per-minute limit is answered, so a flood gets a single reply.
+   * Admins are never limited and the message is allowed when the counters fail.
+   * @param {BotMessageInfo} messageInfo - received message info
+   * @param {RateLimitMetric} metric - the counted quantity
+   * @param {number} amount - the amount to count, 0 to only check that the limit is not used up
+   * @returns {Promise<boolean>} - true if the message must not be processed
+   */
+  private async isRateLimited(
+    messageInfo: BotMessageInfo,
+    metric: RateLimitMetric,
+    amount: number = 1
+  ): Promise<boolean> {
+    const { userId, telegramUsername, chatId, messageId } = messageInfo;
+    if (
+      !this.rateLimiter ||
+      this.rateLimiter.isExempt(userId, telegramUsername)
+    ) {
+      return false;
+    }
+
+    try {
+      const exceeded = await this.rateLimiter.consume(
+        messageInfo,
+        metric,
+        amount
+      );
+      if (!exceeded) return false;
+
+      log(FROM.BOT, TYPE.WARN, "Rate limit exceeded:", exceeded);
+      if (metric !== "messages" || exceeded.value === exceeded.limit + 1) {
+        await this.telegramBot.sendMessage(
+          chatId,
+          `${this.renderer.prefix}${RATE_LIMIT_REPLIES[metric]}`,
+          { reply_to_message_id: messageId }
+        );
+      }
+      return true;
+    } catch (err) {
+      log(FROM.BOT, TYPE.ERROR, "Rate limit error:", err);
+      return false;
+    }
+  }
+
+  /**
+   * Adds the token usage of a model call to the usage counters and the daily token budgets.
+   * @param {BotMessageInfo} messageInfo - received message info
+   * @param {TokenUsage} usage - the token usage of the call
+   * @param {string} model - the model of the call
+   */
+  private async trackUsage(
+    { userId, telegramUsername, chatId }: BotMessageInfo,
+    usage: TokenUsage,
+    model: string
+  ) {
+    await this.usage
+      ?.record(chatId, usage, model)
+      .catch((err) => log(FROM.BOT, TYPE.ERROR, "Usage tracking error:", err));
+
+    if (
+      !this.rateLimiter ||
+      this.rateLimiter.isExempt(userId, telegramUsername)
+    ) {
+      return;
+    }
+    await this.rateLimiter
+      .consume(
+        { userId, chatId },
+        "tokens",
+        usage.promptTokens + usage.completionTokens
+      )
+      .catch((err) => log(FROM.BOT, TYPE.ERROR, "Rate limit error:", err));
+  }
+
+  /**
+   * Returns the token usage and cost of the conversation the message belongs to.
+   * Only the turns kept in the history are counted.
+   * @param {TelegramBot.Message} message - a message of the conversation
+   * @returns {Promise<UsageSummary | undefined>} - the usage, or undefined if usage tracking is not enabled
+   */
+  public async getConversationUsage(
+    message: TelegramBot.Message
+  ): Promise<UsageSummary | undefined> {
+    if (!this.usage) return;
+    const messageInfo = await this.getMessageInfo(message);
+    const history = await this.historyManager.getHistoryById(
+      this.getConversationKey(messageInfo)
+    );
+    return this.usage.summarize(history);
+  }
+
+  /**
+   * Sends the usage of the current conversation, the chat and the bot in the current month to an admin.
+   * @param {TelegramBot.Message} message - received user message
+   */
+  private async sendUsage(message: TelegramBot.Message) {
+    const { chatId, messageId, userId, telegramUsername } =
+      await this.getMessageInfo(message);
+    if (!this.usage || !this.accessPolicy.isAdmin(userId, telegramUsername)) {
+      await this.telegramBot.sendMessage(
+        chatId,
+        `${this.renderer.prefix}Only admins can see the usage`,
+        { reply_to_message_id: messageId }
+      );
+      return;
+    }
+
+    const month = this.usage.getMonth();
+    const [conversationUsage, chatUsage, botUsage] = await Promise.all([
+      this.getConversationUsage(message),
+      this.usage.getChatUsage(chatId, month),
+      this.usage.getBotUsage(month),
+    ]);
+    await this.telegramBot.sendMessage(
+      chatId,
+      [
+        `${this.renderer.prefix}Usage in ${month}`,
+        `This conversation: ${formatUsage(conversationUsage!)}`,
+        `This chat: ${formatUsage(chatUsage)}`,
+        `All chats: ${formatUsage(botUsage)}`,
+      ].join("\n"),
+      { reply_to_message_id: messageId }
+    );
+  }
+
+  /**
+   * Allows or blocks a user or a chat for an admin. The target is the user ID, the @username
+   * or the negative group chat ID after the command, the author of the replied message,
+   * or the current group chat when nothing is given.
+   * @param {TelegramBot.Message} message - received user message
+   * @param {"allow" | "block"} action - whether to allow or block the target
+   */
+  private async changeAccess(
+    message: TelegramBot.Message,
+    action: "allow" | "block"
+  ) {
+    const { chatId, messageId, userId, telegramUsername, text, isPrivateChat } =
+      await this.getMessageInfo(message);
+    const reply = (text: string) =>
+      this.telegramBot.sendMessage(chatId, `${this.renderer.prefix}${text}`, {
+        reply_to_message_id: messageId,
+      });
+    if (!this.accessPolicy.isAdmin(userId, telegramUsername)) {
+      await reply("Only admins can change the access");
+      return;
+    }
+
+    const argument = text.split(/\s+/)[0];
+    const repliedUser = message.reply_to_message?.from;
+    let target: { type: "user" | "chat"; id: string } | undefined;
+    if (/^-\d+$/.test(argument)) {
+      target = { type: "chat", id: argument };
+    } else if (/^\d+$/.test(argument)) {
+      target = { type: "user", id: argument };
+    } else if (/^@?\w+$/.test(argument)) {
+      target = { type: "user", id: `@${argument.replace(/^@/, "")}` };
+    } else if (!argument && repliedUser && !repliedUser.is_bot) {
+      target = { type: "user", id: String(repliedUser.id) };
+    } else if (!argument && !isPrivateChat) {
+      target = { type: "chat", id: String(chatId) };
+    }
+    if (!target) {
+      await reply(
+        `Usage: /${action} <user ID, @username or group chat ID>, or reply to a message of the user`
+      );
+      return;
+    }
+
+    if (target.type === "user") {
+      await (action === "allow"
+        ? this.accessPolicy.allowUser(target.id)
+        : this.accessPolicy.blockUser(target.id));
+    } else {
+      await (action === "allow"
+        ? this.accessPolicy.allowChat(target.id)
+        : this.accessPolicy.blockChat(target.id));
+    }
+    log(FROM.BOT, TYPE.INFO, `Access changed: ${action} ${target.type}`, {
+      userId,
+      target: target.id,
+    });
+    await reply(
+      `${action === "allow" ? "Allowed" : "Blocked"} ${target.type} ${
+        target.id
+      }`
+    );
+  }
+
+  /**
+   * Returns the key which identifies the incoming message across redeliveries.
+   * Edits of a message keep its ID, so the edit date is part of the key.
+   * @param {BotIncomingMessage} incomingMessage - received user message or callback query
+   * @returns {string} - the deduplication key
+   */
+  private getUpdateKey(incomingMessage: BotIncomingMessage): string {
+    if ("chat_instance" in incomingMessage) {
+      return `callback:${incomingMessage.id}`;
+    }
+    const { chat, message_id, edit_date } = incomingMessage;
+    return `message:${chat.id}:${message_id}:${edit_date || 0}`;
+  }
+
+  /**
+   * Processes the update unless it is already claimed. The claim is kept for a day once the update is processed,
+   * and released when processing fails, so a redelivery of the update is processed again.
+   * Updates are processed when no state service is configured or the claim fails.
+   * @param {string | undefined} key - the deduplication key of the update, undefined to always process it
+   * @param {() => Promise<T>} process - processes the update
+   * @returns {Promise<T | void>} - the result of the processing, or nothing if the update was already claimed
+   */
+  private async processOnce<T>(
+    key: string | undefined,
+    process: () => Promise<T>
+  ): Promise<T | void> {
+    const stateService = key ? this.stateService : undefined;
+    if (!stateService) return process();
+
+    const claimId = `processed:${key}`;
+    try {
+      if (
+        !(await stateService.claimItemById(
+          claimId,
+          PROCESSING_UPDATE_TTL_SECONDS
+        ))
+      ) {
+        log(FROM.BOT, TYPE.INFO, `Skipping already processed update: ${key}`);
+        return;
+      }
+    } catch (err) {
+      log(FROM.BOT, TYPE.ERROR, "Update deduplication error:", err);
+      return process();
+    }
+
+    let result: T;
+    try {
+      result = await process();
+    } catch (err) {
+      await stateService
+        .deleteItemById(claimId)
+        .catch((releaseErr) =>
+          log(FROM.BOT, TYPE.ERROR, "Update release error:", releaseErr)
+        );
+      throw err;
+    }
+    // Kept for as long as Telegram can redeliver the update
+    await stateService
+      .extendClaimById(claimId, PROCESSED_UPDATE_TTL_SECONDS)
+      .catch((err) =>
+        log(FROM.BOT, TYPE.ERROR, "Update deduplication error:", err)
+      );
+    return result;
+  }
+
+  /**
+   * Re-runs the last exchange of the conversation with the edited text.
+   * Edits of older messages are ignored, as the conversation has moved on.
+   * Edits which were already processed are skipped.
+   * @param {TelegramBot.Message} message - edited user message
+   * @param {BotResultCallback} callback - called with the result when the conversation ends
+   * @returns {Promise<TResult | void>} - the conversation result, if the conversation has ended
+   */
+  public async processEditedMessage(
+    message: TelegramBot.Message,
+    callback?: BotResultCallback<TResult>
+  ): Promise<TResult | void> {
+    // Claimed before the history is rewound, so a redelivered edit cannot rewind it again
+    return this.processOnce(this.getUpdateKey(message), () =>
+      this.handleEditedMessage(message, callback)
+    );
+  }
+
+  /**
+   * Rewinds the conversation to before the edited message and handles the edited message.
+   * In the "thread" scope the edited message is answered in a new branch of the reply chain.
+   * @param {TelegramBot.Message} message - edited user message
+   * @param {BotResultCallback} callback - called with the result when the conversation ends
+   * @returns {Promise<TResult | void>} - the conversation result, if the conversation has ended
+   */
+  private async handleEditedMessage(
+    message: TelegramBot.Message,
+    callback?: BotResultCallback<TResult>
+  ): Promise<TResult | void> {
+    const messageInfo = await this.getValidMessageInfo(message);
+    if (!messageInfo) return;
+
+    // A reply chain is read from the replied bot message and saved under the new bot reply,
+    // so the history under the key of the edited message is already the one before it
+    if (this.conversationScope === "thread") {
+      return this.handleMessage(message, callback);
+    }
+
+    const conversationKey = this.getConversationKey(messageInfo);
+    const history = await this.historyManager.getHistoryById(conversationKey);
+    const lastExchangeIndex = this.getLastExchangeIndex(history);
+    if (
+      history[lastExchangeIndex]?.metadata?.messageId !== message.message_id
+    ) {
+      log(FROM.BOT, TYPE.INFO, "Edited message is not the last exchange");
+      return;
+    }
+
+    if (lastExchangeIndex > 0) {
+      await this.historyManager.setHistoryById(
+        conversationKey,
+        history.slice(0, lastExchangeIndex)
+      );
+    } else {
+      await this.historyManager.deleteHistoryById(conversationKey);
+    }
+    return this.handleMessage(message, callback);
+  }
+
+  /**
+   * Converts a press of a quick reply or confirmation button into a message from the user,
+   * sent as a reply to the bot message with the keyboard.
+   * @param {TelegramBot.CallbackQuery} query - received callback query
+   * @returns {Promise<TelegramBot.Message | void>} - the message with the label of the pressed button, or nothing if the button is unknown
+   */
+  private async getCallbackMessage(
+    query: TelegramBot.CallbackQuery
+  ): Promise<TelegramBot.Message | void> {
+    // Telegram shows a loading indicator on the button until the query is answered
+    this.telegramBot
+      .answerCallbackQuery(query.id)
+      .catch((err) => log(FROM.BOT, TYPE.ERROR, "Callback answer error:", err));
+
+    const confirmation = parseConfirmation(query);
+    const text =
+      parseQuickReply(query) ||
+      (confirmation && CONFIRMATION_LABELS[confirmation]);
+    if (!query.message || !text) return;
+
+    return {
+      message_id: query.message.message_id,
+      date: query.message.date,
+      chat: query.message.chat,
+      from: query.from,
+      text,
+      reply_to_message: query.message,
+    };
+  }
+
+  /**
+   * Removes the inline keyboard of an accepted button press,
+   * so the same question cannot be answered twice.
+   * @param {TelegramBot.Message} message - the message with the pressed button
+   */
+  private async removeKeyboard(message: TelegramBot.Message) {
+    await this.telegramBot
+      .editMessageReplyMarkup(
+        { inline_keyboard: [] },
+        { chat_id: message.chat.id, message_id: message.message_id }
+      )
+      .catch((err) =>
+        log(FROM.BOT, TYPE.ERROR, "Keyboard removal error:", err)
+      );
+  }
+
+  /**
+   * Processes the message, initiates a conversation and processes the conversation result
+   * A press of a quick reply button is processed as a message with the picked option
+   * A press of a confirmation button confirms, edits or cancels the pending result
+   * Messages which were already processed are skipped
+   * @param {BotIncomingMessage} incomingMessage - received user message or callback query
+   * @returns {Promise<TResult | void>} - the conversation result, if the conversation has ended
    */
   public async processMessage(
+    incomingMessage: BotIncomingMessage,
+    callback?: BotResultCallback<TResult>
+  ): Promise<TResult | void> {
+    if (!getCorrelationId()) {
+      return withCorrelationId(undefined, () =>
+        this.processMessage(incomingMessage, callback)
+      );
+    }
+    const updateKey = this.getUpdateKey(incomingMessage);
+    // Messages carry personal data, so only their key is logged above DEBUG
+    log(FROM.BOT, TYPE.INFO, `Message received: ${updateKey}`);
+    log(FROM.BOT, TYPE.DEBUG, "Message:", incomingMessage);
+    return this.processOnce(updateKey, () =>
+      this.handleIncomingMessage(incomingMessage, callback)
+    );
+  }
+
+  /**
+   * Measures the handling of a message or a button press.
+   * @param {BotIncomingMessage} incomingMessage - received user message or callback query
+   * @param {BotResultCallback} callback - called with the result when the conversation ends
+   * @returns {Promise<TResult | void>} - the conversation result, if the conversation has ended
+   */
+  private async handleIncomingMessage(
+    incomingMessage: BotIncomingMessage,
+    callback?: BotResultCallback<TResult>
+  ): Promise<TResult | void> {
+    return measure(
+      this.metrics,
+      "bot.message",
+      {
+        type: "chat_instance" in incomingMessage ? "callback_query" : "message",
+      },
+      () => this.handleMessage(incomingMessage, callback)
+    );
+  }
+
+  /**
+   * Passes the result of a finished conversation to the result handler of its command and to the callback.
+   * @param {TResult} result - the conversation result
+   * @param {BotCommand} command - the command of the conversation
+   * @param {TelegramBot.Message} message - the message which finished the conversation
+   * @param {BotResultCallback} callback - called with the result
+   */
+  private async finishConversation(
+    result: TResult,
+    command: BotCommand<TResult> | undefined,
     message: TelegramBot.Message,
-    callback?: BotResultCallback
-  ): Promise<any | void> {
-    log(FROM.BOT, TYPE.INFO, "Message received:", message);
+    callback?: BotResultCallback<TResult>
+  ) {
+    await measure(
+      this.metrics,
+      "bot.end_of_conversation",
+      { command: command?.command || this.command },
+      async () => {
+        await command?.onResult?.(result, message, this);
+        await callback?.(result, message, this);
+      }
+    );
+  }
+
+  /**
+   * Handles a message which was not processed before
+   * @param {BotIncomingMessage} incomingMessage - received user message or callback query
+   * @returns {Promise<TResult | void>} - the conversation result, if the conversation has ended
+   */
+  private async handleMessage(
+    incomingMessage: BotIncomingMessage,
+    callback?: BotResultCallback<TResult>
+  ): Promise<TResult | void> {
+    const isCallbackQuery = "chat_instance" in incomingMessage;
+    const confirmation = isCallbackQuery
+      ? parseConfirmation(incomingMessage)
+      : undefined;
+    const message = isCallbackQuery
+      ? await this.getCallbackMessage(incomingMessage)
+      : incomingMessage;
+    if (!message) return;
 
     const botInfo = await this.getBotInfo();
-    const validMessage = await this.getValidMessageInfo(message);
-    log(FROM.BOT, TYPE.INFO, "Bot info:", botInfo);
+    const validMessage = await measure(this.metrics, "bot.validation", {}, () =>
+      this.getValidMessageInfo(message, isCallbackQuery)
+    );
+    log(FROM.BOT, TYPE.DEBUG, "Bot info:", botInfo);
 
     if (!validMessage) return;
+    if (await this.isRateLimited(validMessage, "messages")) return;
+
+    if (confirmation) {
+      return this.processConfirmation(
+        validMessage,
+        confirmation,
+        message,
+        callback
+      );
+    }
+
+    if (isCallbackQuery && message.reply_to_message) {
+      await this.removeKeyboard(message.reply_to_message);
+    }
+
+    const command = validMessage.command
+      ? this.commandRouter.get(validMessage.command)
+      : undefined;
+
+    if (command?.handler) {
+      await command.handler(message, this);
+      return;
+    }
+
+    const messageInfo = await this.transcribeAudio(validMessage);
+    if (!messageInfo) return;
+    const { text, chatId, attachments } = messageInfo;
+
+    const documentTurns = await this.readDocuments(messageInfo);
+    if (!documentTurns) return;
 
-    const { text, chatId } = validMessage;
+    let input = text;
+    if (command?.parseArgs) {
+      input = command.parseArgs(text, message) || "";
+      if (!input) {
+        await this.telegramBot.sendMessage(
+          chatId,
+          `/${command.command} - ${command.description}`
+        );
+        return;
+      }
+    }
 
-    const isHelpNeeded =
-      !text ||
-      text.match(/help/i) ||
-      text.match(/start/i) ||
-      text === "" ||
-      text === `@${botInfo?.username}`;
+    if (!input && !attachments.length) {
+      await this.sendHelp(message.chat);
+      return;
+    }
 
-    if (isHelpNeeded) {
-      this.telegramBot.sendMessage(chatId, this.defaultResponse);
+    if (
+      (await this.isRateLimited(messageInfo, "tokens", 0)) ||
+      (await this.isRateLimited(messageInfo, "prompts"))
+    ) {
       return;
     }
 
     // Start a conversation with the user
     try {
-      const result = await this.respond(validMessage);
-      log(FROM.BOT, TYPE.INFO, "Conversation result:", result);
-      if (result) {
-        await callback?.(result, message, this);
-        return result;
+      const conversation = await this.respond(
+        { ...messageInfo, text: input },
+        command,
+        documentTurns
+      );
+      log(FROM.BOT, TYPE.DEBUG, "Conversation result:", conversation?.result);
+      // A valid result can be falsy, e.g. 0 or false with resultSchema
+      if (conversation && conversation.result !== undefined) {
+        await this.finishConversation(
+          conversation.result,
+          conversation.command,
+          message,
+          callback
+        );
+        return conversation.result;
       }
     } catch (err) {
       log(FROM.BOT, TYPE.ERROR, "Conversation error:", err);
@@ -0,0 +1,166 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { Bot, BotResultCallback } from "./Bot";
+
+/**
+ * Represents a slash command of the bot.
+ * @template TResult - The type of the conversation result.
+ */
+export type BotCommand<TResult = any> = {
+  /**
+   * The name of the command without the leading slash, e.g. "book".
+   * Must match /^[a-z0-9_]{1,32}$/ to be published to Telegram.
+   */
+  command: string;
+  /**
+   * The description shown in /help and in the Telegram command menu.
+   */
+  description: string;
+  /**
+   * A function that generates the system prompt of the command conversation.
+   * Defaults to the systemPromptFunc of the bot.
+   * @param username - The username of the chat participant.
+   * @returns The system prompt.
+   */
+  systemPromptFunc?: (username?: string) => string;
+  /**
+   * Parses the command arguments into the first message of the conversation.
+   * @param args - The text after the command.
+   * @param message - The received message.
+   * @returns The message sent to the model, or nothing if the arguments are invalid.
+   */
+  parseArgs?: (args: string, message: TelegramBot.Message) => string | void;
+  /**
+   * Called with the result when the command conversation ends.
+   */
+  onResult?: BotResultCallback<TResult>;
+  /**
+   * Handles the command without starting a conversation, e.g. for /help.
+   * @param message - The received message.
+   * @param bot - The bot instance.
+   */
+  handler?: (
+    message: TelegramBot.Message,
+    bot: Bot<TResult>
+  ) => void | Promise<void>;
+};
+
+/**
+ * Represents a command parsed from a message.
+ */
+export type ParsedCommand = {
+  /**
+   * The name of the command without the leading slash.
+   */
+  command: string;
+  /**
+   * The text after the command.
+   */
+  args: string;
+};
+
+/**
+ * Matches "/cmd", "/cmd@BotName" and "/cmd@BotName arguments".
+ */
+const COMMAND_REGEX =
+  /^\/([a-zA-Z0-9_]+)(?:@([a-zA-Z0-9_]+))?(?:\s+([\s\S]*))?$/;
+
+/**
+ * Represents a registry of slash commands which routes messages to them.
+ * @template TResult - The type of the conversation result.
+ */
+export class CommandRouter<TResult = any> {
+  private commands: Map<string, BotCommand<TResult>> = new Map();
+
+  /**
+   * Creates a new instance of CommandRouter.
+   * @param commands - The commands to register.
+   */
+  constructor(commands: BotCommand<TResult>[] = []) {
+    commands.forEach((command) => this.register(command));
+    return this;
+  }
+
+  /**
+   * Registers a command. The leading slash is optional.
+   * @param command - The command to register.
+   * @throws {Error} Throws an error if a command with the same name is already registered.
+   */
+  public register(command: BotCommand<TResult>): void {
+    const name = CommandRouter.normalize(command.command);
+    if (!/^[a-zA-Z0-9_]{1,32}$/.test(name)) {
+      throw new Error(`Invalid command name: ${command.command}`);
+    }
+    if (this.commands.has(name)) {
+      throw new Error(`Command already registered: ${command.command}`);
+    }
+    this.commands.set(name, { ...command, command: name });
+  }
+
+  /**
+   * Checks whether a command is registered.
+   * @param name - The name of the command, with or without the leading slash.
+   * @returns True if the command is registered.
+   */
+  public has(name: string): boolean {
+    return this.commands.has(CommandRouter.normalize(name));
+  }
+
+  /**
+   * Returns a registered command.
+   * @param name - The name of the command, with or without the leading slash.
+   * @returns The command or undefined if not registered.
+   */
+  public get(name: string): BotCommand<TResult> | undefined {
+    return this.commands.get(CommandRouter.normalize(name));
+  }
+
+  /**
+   * Returns all registered commands.
+   * @returns The list of registered commands.
+   */
+  public list(): BotCommand<TResult>[] {
+    return [...this.commands.values()];
+  }
+
+  /**
+   * Parses a registered command from the message text.
+   * Commands addressed to another bot with "/cmd@OtherBot" are ignored.
+   * @param text - The message text.
+   * @param botUsername - The username of the bot.
+   * @returns The parsed command or undefined if the text is not a registered command.
+   */
+  public parse(text: string, botUsername?: string): ParsedCommand | undefined {
+    const [, command, mention, args] = text.trim().match(COMMAND_REGEX) || [];
+    if (!command || !this.has(command)) return;
+    if (
+      mention &&
+      botUsername &&
+      mention.toLowerCase() !== botUsername.toLowerCase()
+    ) {
+      return;
+    }
+    return {
+      command: CommandRouter.normalize(command),
+      args: args?.trim() || "",
+    };
+  }
+
+  /**
+   * Returns the commands in the format accepted by Telegram setMyCommands.
+   * @returns The list of Telegram bot commands.
+   */
+  public toTelegramCommands(): TelegramBot.BotCommand[] {
+    return this.list()
+      .filter(({ command }) => /^[a-z0-9_]{1,32}$/.test(command))
+      .map(({ command, description }) => ({ command, description }));
+  }
+
+  /**
+   * Removes the leading slash from the command name.
+   * @param name - The name of the command.
+   * @returns The command name without the leading slash.
+   */
+  private static normalize(name: string): string {
+    return name.replace(/^\//, "");
+  }
+}
@@ -0,0 +1,81 @@
+import TelegramBot from "node-telegram-bot-api";
+import { ConversationTurn } from "../managers/ConversationTurn";
+import { BotTool } from "../services/prompt/ToolRegistry";
+
+/**
+ * The name of the tool the model calls to offer quick replies.
+ */
+export const QUICK_REPLIES_TOOL_NAME = "offer_quick_replies";
+
+/**
+ * The prefix of the callback data of quick reply buttons.
+ * Telegram limits callback data to 64 bytes, so buttons carry the index of the option.
+ */
+const QUICK_REPLY_PREFIX = "reply:";
+
+/**
+ * The tool which lets the model offer quick replies rendered as an inline keyboard.
+ * The options are read from the tool call, so the handler only confirms it.
+ */
+export const quickRepliesTool: BotTool<{ options: string[] }> = {
+  name: QUICK_REPLIES_TOOL_NAME,
+  description:
+    "Shows buttons with quick reply options under your next message. " +
+    "Call it when the user should pick one of a few answers, then write the message.",
+  parameters: {
+    type: "object",
+    properties: {
+      options: {
+        type: "array",
+        items: { type: "string" },
+        description: "The short answer options, at most 8",
+      },
+    },
+    required: ["options"],
+  },
+  handler: () => ({ shown: true }),
+};
+
+/**
+ * Returns the quick replies offered by the model through the quick replies tool.
+ * @param turns - The conversation turns of the last prompt.
+ * @returns The offered options, empty if none.
+ */
+export const getQuickReplies = (turns: ConversationTurn[]): string[] =>
+  turns
+    .flatMap(({ toolCalls }) => toolCalls || [])
+    .filter(({ name }) => name === QUICK_REPLIES_TOOL_NAME)
+    .flatMap(({ arguments: args }) =>
+      Array.isArray(args.options) ? args.options : []
+    )
+    .filter((option): option is string => typeof option === "string");
+
+/**
+ * Creates an inline keyboard with one button per option.
+ * @param options - The quick reply options.
+ * @returns The inline keyboard or undefined if there are no options.
+ */
+export const createQuickRepliesKeyboard = (
+  options: string[] = []
+): TelegramBot.InlineKeyboardMarkup | undefined => {
+  if (!options.length) return;
+  return {
+    inline_keyboard: options.map((option, index) => [
+      { text: option, callback_data: `${QUICK_REPLY_PREFIX}${index}` },
+    ]),
+  };
+};
+
+/**
+ * Returns the option the user picked by pressing a quick reply button.
+ * @param query - The callback query of the button.
+ * @returns The text of the picked option or undefined if the query is not a quick reply.
+ */
+export const parseQuickReply = (
+  query: TelegramBot.CallbackQuery
+): string | undefined => {
+  if (!query.data?.startsWith(QUICK_REPLY_PREFIX)) return;
+  return query.message?.reply_markup?.inline_keyboard
+    .flat()
+    .find(({ callback_data }) => callback_data === query.data)?.text;
+};
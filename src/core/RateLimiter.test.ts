@@ -0,0 +1,51 @@
+import { LocalStateService } from "../services/state/LocalStateService";
+import { RateLimiter } from "./RateLimiter";
+
+describe("RateLimiter", () => {
+  it("exempts the listed users by ID and Telegram username only", () => {
+    const limiter = new RateLimiter({
+      stateService: new LocalStateService(),
+      limits: {},
+      exemptUsers: ["1", "@owner"],
+    });
+
+    expect(limiter.isExempt(1, undefined)).toBe(true);
+    expect(limiter.isExempt(2, "owner")).toBe(true);
+    expect(limiter.isExempt(2, undefined)).toBe(false);
+  });
+
+  it("reports the first limit over its value", async () => {
+    const limiter = new RateLimiter({
+      stateService: new LocalStateService(),
+      limits: { user: { messagesPerMinute: 2 }, chat: { promptsPerDay: 5 } },
+    });
+    const subject = { userId: 1, chatId: -10 };
+
+    expect(await limiter.consume(subject, "messages")).toBeUndefined();
+    expect(await limiter.consume(subject, "messages")).toBeUndefined();
+    expect(await limiter.consume(subject, "messages")).toEqual({
+      scope: "user",
+      metric: "messages",
+      limit: 2,
+      value: 3,
+    });
+    expect(
+      await limiter.consume({ userId: 2, chatId: -10 }, "messages")
+    ).toBeUndefined();
+  });
+
+  it("only reads the counters for an amount of 0", async () => {
+    const limiter = new RateLimiter({
+      stateService: new LocalStateService(),
+      limits: { user: { tokensPerDay: 100 } },
+    });
+    const subject = { userId: 1, chatId: 1 };
+
+    expect(await limiter.consume(subject, "tokens", 0)).toBeUndefined();
+    await limiter.consume(subject, "tokens", 100);
+    expect(await limiter.consume(subject, "tokens", 0)).toMatchObject({
+      metric: "tokens",
+      value: 100,
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { ConversationTurn } from "../managers/ConversationTurn";
+import { StateServiceInterface } from "../services/state/StateServiceInterface";
+import { isListedUser } from "../utils/users";
+
+/**
+ * Represents the limits of a single user or chat. Limits which are not set are not enforced.
+ */
+export type RateLimit = {
+  /**
+   * The maximum number of messages per minute.
+   */
+  messagesPerMinute?: number;
+  /**
+   * The maximum number of LLM calls per day.
+   */
+  promptsPerDay?: number;
+  /**
+   * The maximum number of prompt and completion tokens spent per day.
+   */
+  tokensPerDay?: number;
+};
+
+/**
+ * Represents the limits applied to every user and to every chat.
+ */
+export type RateLimits = {
+  /**
+   * The limits of each user across all chats.
+   */
+  user?: RateLimit;
+  /**
+   * The limits of each chat shared by all its users.
+   */
+  chat?: RateLimit;
+};
+
+/**
+ * Represents a counted quantity.
+ * - "messages" - the received messages, counted per minute
+ * - "prompts" - the LLM calls, counted per day
+ * - "tokens" - the prompt and completion tokens spent, counted per day
+ */
+export type RateLimitMetric = "messages" | "prompts" | "tokens";
+
+/**
+ * Represents a limit which was hit.
+ */
+export type RateLimitExceeded = {
+  /**
+   * Whether the limit of the user or of the chat was hit.
+   */
+  scope: keyof RateLimits;
+  /**
+   * The counted quantity.
+   */
+  metric: RateLimitMetric;
+  /**
+   * The configured limit.
+   */
+  limit: number;
+  /**
+   * The value of the counter, including the current message.
+   */
+  value: number;
+};
+
+/**
+ * Represents the configuration options for the RateLimiter.
+ */
+export type RateLimiterConfig = {
+  /**
+   * The state service which keeps the counters.
+   */
+  stateService: StateServiceInterface<ConversationTurn>;
+  /**
+   * The limits applied to every user and to every chat.
+   */
+  limits: RateLimits;
+  /**
+   * The IDs or usernames of users who are never limited.
+   */
+  exemptUsers?: string[];
+};
+
+/**
+ * The limit and the counting window of each metric.
+ */
+const METRICS: Record<
+  RateLimitMetric,
+  { limit: keyof RateLimit; windowSeconds: number }
+> = {
+  messages: { limit: "messagesPerMinute", windowSeconds: 60 },
+  prompts: { limit: "promptsPerDay", windowSeconds: 24 * 60 * 60 },
+  tokens: { limit: "tokensPerDay", windowSeconds: 24 * 60 * 60 },
+};
+
+/**
+ * The replies sent when a limit is hit.
+ */
+export const RATE_LIMIT_REPLIES: Record<RateLimitMetric, string> = {
+  messages: "Slow down, please! Too many messages, try again in a minute.",
+  prompts: "The daily limit of requests is reached, try again tomorrow.",
+  tokens: "The daily usage budget is spent, try again tomorrow.",
+};
+
+/**
+ * Represents a limiter of messages, LLM calls and tokens per user and per chat.
+ * Counters are kept in fixed windows through the state service, so the limits
+ * are shared by all Lambda invocations when DynamoDB is used.
+ */
+export class RateLimiter {
+  private stateService: StateServiceInterface<ConversationTurn>;
+  private limits: RateLimits;
+  private exemptUsers: string[];
+
+  /**
+   * Creates a new instance of the RateLimiter class.
+   * @param {RateLimiterConfig} config - The configuration object for the RateLimiter.
+   * @returns {RateLimiter} The newly created RateLimiter instance.
+   */
+  constructor({ stateService, limits, exemptUsers }: RateLimiterConfig) {
+    this.stateService = stateService;
+    this.limits = limits;
+    this.exemptUsers = exemptUsers || [];
+    return this;
+  }
+
+  /**
+   * Checks whether the user is exempt from the limits.
+   * @param userId - The ID of the user.
+   * @param username - The Telegram username of the user, not the display name.
+   * @returns True if the user is never limited.
+   */
+  public isExempt(
+    userId: number | undefined,
+    username: string | undefined
+  ): boolean {
+    return isListedUser(this.exemptUsers, userId, username);
+  }
+
+  /**
+   * Adds to the counters of the user and of the chat and checks their limits.
+   * A check with the amount 0 only reads the counters and reports limits which are used up.
+   * @param subject - The user and the chat.
+   * @param metric - The counted quantity.
+   * @param amount - The amount to add. Defaults to 1.
+   * @returns The first limit which was hit, or undefined if the limits allow the request.
+   */
+  public async consume(
+    { userId, chatId }: { userId: number | undefined; chatId: number },
+    metric: RateLimitMetric,
+    amount: number = 1
+  ): Promise<RateLimitExceeded | undefined> {
+    const { limit: limitName, windowSeconds } = METRICS[metric];
+    const window = Math.floor(Date.now() / 1000 / windowSeconds);
+    const subjects: [keyof RateLimits, number | undefined][] = [
+      ["user", userId],
+      ["chat", chatId],
+    ];
+
+    let exceeded: RateLimitExceeded | undefined;
+    for (const [scope, id] of subjects) {
+      const limit = this.limits[scope]?.[limitName];
+      if (limit === undefined || id === undefined) continue;
+
+      const value = await this.stateService.incrementCounterById(
+        `rate:${scope}:${id}:${metric}:${window}`,
+        amount,
+        windowSeconds
+      );
+      if (!exceeded && (value > limit || (amount === 0 && value >= limit))) {
+        exceeded = { scope, metric, limit, value };
+      }
+    }
+    return exceeded;
+  }
+}
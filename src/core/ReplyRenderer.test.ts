@@ -0,0 +1,61 @@
+import TelegramBot from "node-telegram-bot-api";
+import { ReplyFormat } from "../utils/markdown";
+import { ReplyRenderer, TELEGRAM_MESSAGE_LIMIT } from "./ReplyRenderer";
+
+const createRenderer = (format: ReplyFormat) =>
+  new ReplyRenderer({ telegramBot: {} as TelegramBot, format });
+
+/**
+ * A long answer made of characters which are escaped in every format.
+ */
+const ESCAPE_HEAVY_ANSWER = Array.from(
+  { length: 40 },
+  (_, index) =>
+    `Paragraph ${index}: ${"a<b & c>d_[x](y)*!.-=|{}#+ ".repeat(10)}`
+).join("\n\n");
+
+describe("ReplyRenderer", () => {
+  it.each<ReplyFormat>(["html", "markdownv2"])(
+    "keeps every %s part of an escape-heavy answer within a Telegram message",
+    (format) => {
+      const parts = createRenderer(format).render(ESCAPE_HEAVY_ANSWER);
+
+      expect(parts.length).toBeGreaterThan(2);
+      for (const part of parts) {
+        expect(part.text.length).toBeLessThanOrEqual(TELEGRAM_MESSAGE_LIMIT);
+        expect(part.plainText.length).toBeLessThanOrEqual(
+          TELEGRAM_MESSAGE_LIMIT
+        );
+      }
+      expect(parts[0].plainText.startsWith("🤖 Paragraph 0:")).toBe(true);
+      expect(parts.slice(1).every(({ text }) => !text.startsWith("🤖"))).toBe(
+        true
+      );
+    }
+  );
+
+  it("splits a long code block into code blocks of the same language", () => {
+    const code = Array.from(
+      { length: 600 },
+      (_, index) => `if (a < ${index} && b > ${index}) {}`
+    ).join("\n");
+
+    const parts = createRenderer("html").render(`\`\`\`ts\n${code}\n\`\`\``);
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(part.text.length).toBeLessThanOrEqual(TELEGRAM_MESSAGE_LIMIT);
+      expect(part.plainText).toMatch(/```ts\n[^]*\n```$/);
+    }
+  });
+
+  it("keeps a short answer in one part with the prefix", () => {
+    expect(createRenderer("markdownv2").render("Hi!")).toEqual([
+      {
+        text: "🤖 Hi\\!",
+        parseMode: "MarkdownV2",
+        plainText: "🤖 Hi!",
+      },
+    ]);
+  });
+});
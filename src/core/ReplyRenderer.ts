@@ -0,0 +1,280 @@
+import TelegramBot from "node-telegram-bot-api";
+import { FROM, TYPE, log } from "../utils/logger";
+import {
+  ReplyFormat,
+  convertMarkdown,
+  escapeHTML,
+  escapeMarkdownV2,
+  splitMarkdown,
+} from "../utils/markdown";
+
+/**
+ * Configuration object for the ReplyRenderer.
+ */
+export type ReplyRendererConfig = {
+  /**
+   * The Telegram bot used to send and edit the replies.
+   */
+  telegramBot: TelegramBot;
+  /**
+   * The Telegram formatting of the replies. Defaults to "html".
+   */
+  format?: ReplyFormat;
+  /**
+   * The text shown before every reply. Defaults to "🤖 ".
+   */
+  prefix?: string;
+};
+
+/**
+ * Represents a part of a reply which fits in one Telegram message.
+ */
+export type RenderedReply = {
+  /**
+   * The formatted text, including the prefix in the first part.
+   */
+  text: string;
+  /**
+   * The Telegram parse mode of the text, undefined for plain text.
+   */
+  parseMode?: TelegramBot.ParseMode;
+  /**
+   * The text of the part as it is, sent when Telegram rejects the formatting.
+   */
+  plainText: string;
+};
+
+/**
+ * The options of a sent reply.
+ */
+export type ReplyOptions = {
+  /**
+   * The message the first part of the reply answers.
+   */
+  replyToMessageId?: number;
+  /**
+   * The inline keyboard shown under the last part of the reply.
+   */
+  replyMarkup?: TelegramBot.InlineKeyboardMarkup;
+};
+
+/**
+ * The maximum length of a Telegram message.
+ */
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+/**
+ * The default text shown before every reply.
+ */
+export const DEFAULT_REPLY_PREFIX = "🤖 ";
+
+/**
+ * Matches the errors of Telegram about the formatting, e.g. "can't parse entities".
+ */
+const ENTITY_ERROR_REGEX = /entit/i;
+
+/**
+ * The Telegram parse modes of the formats.
+ */
+const PARSE_MODES: Record<ReplyFormat, TelegramBot.ParseMode | undefined> = {
+  html: "HTML",
+  markdownv2: "MarkdownV2",
+  plain: undefined,
+};
+
+/**
+ * Represents a renderer which converts the markdown of LLM answers to Telegram formatting
+ * and sends long answers as several messages.
+ * A message Telegram rejects because of its formatting is sent again as plain text.
+ */
+export class ReplyRenderer {
+  /**
+   * The text shown before every reply.
+   */
+  public readonly prefix: string;
+  private telegramBot: TelegramBot;
+  private format: ReplyFormat;
+
+  /**
+   * Creates a new instance of ReplyRenderer.
+   * @param {ReplyRendererConfig} config - The configuration object for ReplyRenderer.
+   */
+  constructor({ telegramBot, format, prefix }: ReplyRendererConfig) {
+    this.telegramBot = telegramBot;
+    this.format = format || "html";
+    this.prefix = prefix ?? DEFAULT_REPLY_PREFIX;
+    return this;
+  }
+
+  /**
+   * Splits the answer into parts which fit in a Telegram message and formats them.
+   * @param markdown - The answer of the model.
+   * @returns The formatted parts, the first one with the prefix.
+   */
+  public render(markdown: string): RenderedReply[] {
+    return this.renderParts(
+      markdown,
+      true,
+      TELEGRAM_MESSAGE_LIMIT - this.prefix.length
+    );
+  }
+
+  /**
+   * Splits a plain text into parts which fit in a Telegram message, sent without formatting.
+   * @param text - The text, e.g. a formatted conversation result.
+   * @returns The parts, the first one with the prefix.
+   */
+  public renderPlain(text: string): RenderedReply[] {
+    return splitMarkdown(text, TELEGRAM_MESSAGE_LIMIT - this.prefix.length).map(
+      (part, index) => {
+        const plainText = `${index ? "" : this.prefix}${part}`;
+        return { text: plainText, plainText };
+      }
+    );
+  }
+
+  /**
+   * Splits the markdown by the limit and formats the parts.
+   * A part longer than a Telegram message once escaped or converted is split again with a lower limit.
+   * @param markdown - The markdown text.
+   * @param withPrefix - Whether the first part starts with the prefix.
+   * @param limit - The maximum length of a markdown part.
+   * @returns The formatted parts.
+   */
+  private renderParts(
+    markdown: string,
+    withPrefix: boolean,
+    limit: number
+  ): RenderedReply[] {
+    return splitMarkdown(markdown, limit).flatMap((part, index) => {
+      const rendered = this.renderPart(part, withPrefix && !index);
+      const lowerLimit = Math.max(
+        1,
+        Math.floor(
+          (part.length * TELEGRAM_MESSAGE_LIMIT) / rendered.text.length
+        )
+      );
+      if (
+        rendered.text.length <= TELEGRAM_MESSAGE_LIMIT ||
+        splitMarkdown(part, lowerLimit).length < 2
+      ) {
+        return [rendered];
+      }
+      return this.renderParts(part, withPrefix && !index, lowerLimit);
+    });
+  }
+
+  /**
+   * Formats a part of the answer.
+   * @param part - The markdown of the part.
+   * @param withPrefix - Whether the part starts with the prefix.
+   * @returns The formatted part.
+   */
+  private renderPart(part: string, withPrefix: boolean): RenderedReply {
+    const prefix = withPrefix ? this.prefix : "";
+    const formattedPrefix =
+      this.format === "html"
+        ? escapeHTML(prefix)
+        : this.format === "markdownv2"
+        ? escapeMarkdownV2(prefix)
+        : prefix;
+    return {
+      text: `${formattedPrefix}${convertMarkdown(part, this.format)}`,
+      parseMode: PARSE_MODES[this.format],
+      plainText: `${prefix}${part}`,
+    };
+  }
+
+  /**
+   * Sends the answer as one or more messages.
+   * @param chatId - The chat to send the answer to.
+   * @param markdown - The answer of the model.
+   * @param options - The replied message and the inline keyboard.
+   * @returns A promise that resolves to the last sent message.
+   */
+  public async send(
+    chatId: number,
+    markdown: string,
+    options: ReplyOptions = {}
+  ): Promise<TelegramBot.Message> {
+    return this.sendParts(chatId, this.render(markdown), options);
+  }
+
+  /**
+   * Sends the formatted parts of an answer as separate messages.
+   * @param chatId - The chat to send the parts to.
+   * @param parts - The formatted parts.
+   * @param options - The replied message and the inline keyboard.
+   * @returns A promise that resolves to the last sent message.
+   */
+  public async sendParts(
+    chatId: number,
+    parts: RenderedReply[],
+    { replyToMessageId, replyMarkup }: ReplyOptions = {}
+  ): Promise<TelegramBot.Message> {
+    let message!: TelegramBot.Message;
+    for (const [index, part] of parts.entries()) {
+      const isLast = index === parts.length - 1;
+      const options: TelegramBot.SendMessageOptions = {
+        reply_to_message_id: index ? undefined : replyToMessageId,
+        reply_markup: isLast ? replyMarkup : undefined,
+      };
+      message = await this.withPlainTextFallback(part, (text, parseMode) =>
+        this.telegramBot.sendMessage(chatId, text, {
+          ...options,
+          parse_mode: parseMode,
+        })
+      );
+    }
+    return message;
+  }
+
+  /**
+   * Replaces the text of a sent message with a formatted part.
+   * @param chatId - The chat of the message.
+   * @param messageId - The edited message.
+   * @param part - The formatted part.
+   * @param replyMarkup - The inline keyboard shown under the message.
+   * @returns A promise that resolves when the message is edited.
+   */
+  public async edit(
+    chatId: number,
+    messageId: number,
+    part: RenderedReply,
+    replyMarkup?: TelegramBot.InlineKeyboardMarkup
+  ): Promise<void> {
+    await this.withPlainTextFallback(part, (text, parseMode) =>
+      this.telegramBot.editMessageText(text, {
+        chat_id: chatId,
+        message_id: messageId,
+        reply_markup: replyMarkup,
+        parse_mode: parseMode,
+      })
+    );
+  }
+
+  /**
+   * Sends the formatted part and sends it again as plain text when Telegram rejects its formatting.
+   * @param part - The formatted part.
+   * @param sendText - Sends the text with the parse mode.
+   * @returns A promise that resolves to the result of the sending.
+   */
+  private async withPlainTextFallback<T>(
+    part: RenderedReply,
+    sendText: (text: string, parseMode?: TelegramBot.ParseMode) => Promise<T>
+  ): Promise<T> {
+    if (!part.parseMode) return sendText(part.plainText);
+    try {
+      return await sendText(part.text, part.parseMode);
+    } catch (err) {
+      if (!ENTITY_ERROR_REGEX.test(String((err as Error)?.message))) throw err;
+      log(
+        FROM.BOT,
+        TYPE.WARN,
+        "Formatted reply rejected, sending plain text:",
+        err
+      );
+      return sendText(part.plainText);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import TelegramBot from "node-telegram-bot-api";
+
+/**
+ * Represents the answer of the user to the result confirmation.
+ * - "confirm" - the result is passed to the result callbacks
+ * - "edit" - the conversation continues, so the user can correct the result
+ * - "cancel" - the conversation is dropped
+ */
+export type ConfirmationAction = "confirm" | "edit" | "cancel";
+
+/**
+ * The prefix of the callback data of confirmation buttons.
+ */
+const CONFIRMATION_PREFIX = "confirm:";
+
+/**
+ * The labels of the confirmation buttons.
+ */
+export const CONFIRMATION_LABELS: Record<ConfirmationAction, string> = {
+  confirm: "✅ Confirm",
+  edit: "✏️ Edit",
+  cancel: "❌ Cancel",
+};
+
+/**
+ * Formats the result as indented JSON, used when no formatter is configured.
+ * @param result - The conversation result.
+ * @returns The formatted result.
+ */
+export const formatResultAsJSON = (result: unknown): string =>
+  JSON.stringify(result, null, 2);
+
+/**
+ * Creates the inline keyboard with the Confirm, Edit and Cancel buttons.
+ * @returns The inline keyboard.
+ */
+export const createConfirmationKeyboard =
+  (): TelegramBot.InlineKeyboardMarkup => ({
+    inline_keyboard: [
+      (Object.keys(CONFIRMATION_LABELS) as ConfirmationAction[]).map(
+        (action) => ({
+          text: CONFIRMATION_LABELS[action],
+          callback_data: `${CONFIRMATION_PREFIX}${action}`,
+        })
+      ),
+    ],
+  });
+
+/**
+ * Returns the action of a pressed confirmation button.
+ * @param query - The callback query of the button.
+ * @returns The confirmation action or undefined if the query is not a confirmation.
+ */
+export const parseConfirmation = (
+  query: TelegramBot.CallbackQuery
+): ConfirmationAction | undefined => {
+  if (!query.data?.startsWith(CONFIRMATION_PREFIX)) return;
+  const action = query.data.slice(CONFIRMATION_PREFIX.length);
+  return action in CONFIRMATION_LABELS
+    ? (action as ConfirmationAction)
+    : undefined;
+};
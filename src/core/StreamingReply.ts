@@ -0,0 +1,183 @@
+import TelegramBot from "node-telegram-bot-api";
+import { FROM, TYPE, log } from "../utils/logger";
+import { RenderedReply, ReplyRenderer } from "./ReplyRenderer";
+
+/**
+ * Configuration object for the StreamingReply.
+ */
+export type StreamingReplyConfig = {
+  /**
+   * The Telegram bot used to send and edit the reply.
+   */
+  telegramBot: TelegramBot;
+  /**
+   * The renderer which formats the reply and sends the parts which do not fit in the first message.
+   */
+  renderer: ReplyRenderer;
+  /**
+   * The chat to reply in.
+   */
+  chatId: number;
+  /**
+   * The message to reply to.
+   */
+  replyToMessageId: number;
+  /**
+   * The minimum interval in milliseconds between two edits of the reply.
+   */
+  editIntervalMs: number;
+};
+
+/**
+ * Telegram shows the "typing" chat action for 5 seconds, so it is refreshed slightly earlier.
+ */
+const TYPING_INTERVAL_MS = 4000;
+
+/**
+ * Represents a reply which is progressively edited while the answer is streamed.
+ */
+export class StreamingReply {
+  public messageId?: number;
+  private telegramBot: TelegramBot;
+  private renderer: ReplyRenderer;
+  private chatId: number;
+  private replyToMessageId: number;
+  private editIntervalMs: number;
+  private sentText: string = "";
+  private pendingText: string = "";
+  private lastEditAt: number = 0;
+  private editTimer?: ReturnType<typeof setTimeout>;
+  private typingTimer?: ReturnType<typeof setInterval>;
+  private editing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new instance of StreamingReply.
+   * @param {StreamingReplyConfig} config - The configuration object for StreamingReply.
+   */
+  constructor({
+    telegramBot,
+    renderer,
+    chatId,
+    replyToMessageId,
+    editIntervalMs,
+  }: StreamingReplyConfig) {
+    this.telegramBot = telegramBot;
+    this.renderer = renderer;
+    this.chatId = chatId;
+    this.replyToMessageId = replyToMessageId;
+    this.editIntervalMs = editIntervalMs;
+    return this;
+  }
+
+  /**
+   * Sends the "typing" chat action and the placeholder reply.
+   * @returns {Promise<void>} A promise that resolves when the placeholder is sent.
+   */
+  public async start(): Promise<void> {
+    this.sendTyping();
+    this.typingTimer = setInterval(() => this.sendTyping(), TYPING_INTERVAL_MS);
+
+    const message = await this.telegramBot.sendMessage(
+      this.chatId,
+      `${this.renderer.prefix}…`,
+      { reply_to_message_id: this.replyToMessageId }
+    );
+    this.messageId = message.message_id;
+  }
+
+  /**
+   * Updates the reply with the text received so far.
+   * Edits are throttled to stay inside Telegram's rate limits, and only the part which fits in the first message is shown.
+   * @param text - The accumulated text of the answer.
+   */
+  public update = (text: string): void => {
+    this.pendingText = text;
+    if (this.editTimer) return;
+
+    const delay = Math.max(
+      0,
+      this.lastEditAt + this.editIntervalMs - Date.now()
+    );
+    this.editTimer = setTimeout(() => {
+      this.editTimer = undefined;
+      this.editing = this.editing.then(() =>
+        this.edit(this.renderer.render(this.pendingText)[0])
+      );
+    }, delay);
+  };
+
+  /**
+   * Stops the streaming and edits the reply to contain the full text.
+   * An answer longer than one message continues in new messages, and the last one becomes the reply.
+   * @param text - The full text of the answer.
+   * @param replyMarkup - The inline keyboard shown under the last message of the reply.
+   * @returns {Promise<void>} A promise that resolves when the reply is edited.
+   */
+  public async finish(
+    text: string,
+    replyMarkup?: TelegramBot.InlineKeyboardMarkup
+  ): Promise<void> {
+    this.stop();
+    await this.editing;
+    const [first, ...rest] = this.renderer.render(text);
+    await this.edit(first, rest.length ? undefined : replyMarkup);
+    if (!rest.length || !this.messageId) return;
+    const lastMessage = await this.renderer.sendParts(this.chatId, rest, {
+      replyMarkup,
+    });
+    this.messageId = lastMessage.message_id;
+  }
+
+  /**
+   * Stops the streaming and deletes the reply, e.g. when the conversation has ended.
+   * @returns {Promise<void>} A promise that resolves when the reply is deleted.
+   */
+  public async discard(): Promise<void> {
+    this.stop();
+    await this.editing;
+    if (!this.messageId) return;
+    try {
+      await this.telegramBot.deleteMessage(this.chatId, this.messageId);
+    } catch (err) {
+      log(FROM.BOT, TYPE.ERROR, "Streaming reply deletion error:", err);
+    }
+  }
+
+  /**
+   * Clears the typing and edit timers.
+   */
+  private stop(): void {
+    clearInterval(this.typingTimer);
+    clearTimeout(this.editTimer);
+    this.editTimer = undefined;
+  }
+
+  /**
+   * Sends the "typing" chat action.
+   */
+  private sendTyping(): void {
+    this.telegramBot
+      .sendChatAction(this.chatId, "typing")
+      .catch((err) => log(FROM.BOT, TYPE.ERROR, "Chat action error:", err));
+  }
+
+  /**
+   * Edits the reply unless it already contains the text.
+   * @param part - The formatted first part of the answer.
+   * @param replyMarkup - The inline keyboard shown under the reply.
+   */
+  private async edit(
+    part: RenderedReply,
+    replyMarkup?: TelegramBot.InlineKeyboardMarkup
+  ): Promise<void> {
+    if (!this.messageId || part.plainText === this.renderer.prefix) return;
+    if (part.text === this.sentText && !replyMarkup) return;
+    this.lastEditAt = Date.now();
+    try {
+      await this.renderer.edit(this.chatId, this.messageId, part, replyMarkup);
+      this.sentText = part.text;
+    } catch (err) {
+      log(FROM.BOT, TYPE.ERROR, "Streaming reply edit error:", err);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { parseStructuredResponse } from "./StructuredResult";
+
+describe("parseStructuredResponse", () => {
+  const resultSchema = {
+    type: "object" as const,
+    properties: { count: { type: "integer" as const } },
+    required: ["count"],
+  };
+
+  it("returns the reply with the string options", () => {
+    expect(
+      parseStructuredResponse(
+        JSON.stringify({ reply: "How many?", options: ["1", 2, "3"] }),
+        resultSchema
+      )
+    ).toEqual({ reply: "How many?", options: ["1", "3"], errors: [] });
+  });
+
+  it("returns the valid result, even when a reply is given too", () => {
+    expect(
+      parseStructuredResponse(
+        JSON.stringify({ reply: "Done", result: { count: 0 } }),
+        resultSchema
+      )
+    ).toEqual({ result: { count: 0 }, errors: [] });
+  });
+
+  it("reports an invalid result", () => {
+    expect(
+      parseStructuredResponse(
+        JSON.stringify({ result: { count: "two" } }),
+        resultSchema
+      )
+    ).toEqual({
+      errors: ["result.count must be of type integer, got string"],
+    });
+  });
+
+  it("reports a response which is not JSON", () => {
+    expect(parseStructuredResponse("Sure!", resultSchema).errors[0]).toMatch(
+      /^Response is not valid JSON/
+    );
+  });
+
+  it("reports a response without a reply or a result", () => {
+    expect(
+      parseStructuredResponse(
+        JSON.stringify({ reply: "", result: null }),
+        resultSchema
+      )
+    ).toEqual({
+      errors: ['Response must contain either "reply" or "result"'],
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { JSONSchema, validateJSONSchema } from "../utils/jsonSchema";
+
+/**
+ * Represents a parsed structured response of the model.
+ * @template TResult - The type of the conversation result.
+ */
+export type StructuredResponse<TResult> = {
+  /**
+   * The reply to send to the user when the conversation continues.
+   */
+  reply?: string;
+  /**
+   * The quick reply options offered together with the reply.
+   */
+  options?: string[];
+  /**
+   * The validated result when the conversation is finished.
+   */
+  result?: TResult;
+  /**
+   * The validation errors, empty if the response is valid.
+   */
+  errors: string[];
+};
+
+/**
+ * Wraps the result schema into the schema of every model response.
+ * The model either continues the conversation with a reply or finishes it with a result.
+ * @param resultSchema - The schema of the conversation result.
+ * @param quickReplies - Lets the model offer quick reply options together with the reply.
+ * @returns The schema of the model response.
+ */
+export const createStructuredResponseSchema = (
+  resultSchema: JSONSchema,
+  quickReplies: boolean = false
+): JSONSchema => ({
+  type: "object",
+  properties: {
+    reply: {
+      type: "string",
+      description:
+        "The message to the user while the conversation continues. Omit when the result is provided.",
+    },
+    ...(quickReplies && {
+      options: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Short answer options shown as buttons under the reply, when the user should pick one of a few answers.",
+      },
+    }),
+    result: {
+      ...resultSchema,
+      description:
+        resultSchema.description ||
+        "The result of the conversation. Provide only when all data is collected.",
+    },
+  },
+});
+
+/**
+ * Parses and validates a structured response of the model.
+ * @param text - The raw text of the model response.
+ * @param resultSchema - The schema of the conversation result.
+ * @returns The parsed response.
+ */
+export const parseStructuredResponse = <TResult>(
+  text: string,
+  resultSchema: JSONSchema
+): StructuredResponse<TResult> => {
+  let response: { reply?: unknown; options?: unknown; result?: unknown };
+  try {
+    response = JSON.parse(text);
+  } catch (err) {
+    return { errors: [`Response is not valid JSON: ${err}`] };
+  }
+
+  if (response?.result !== undefined && response.result !== null) {
+    const errors = validateJSONSchema(resultSchema, response.result, "result");
+    return errors.length
+      ? { errors }
+      : { result: response.result as TResult, errors };
+  }
+  if (typeof response?.reply === "string" && response.reply) {
+    const options = Array.isArray(response.options)
+      ? response.options.filter(
+          (option): option is string => typeof option === "string"
+        )
+      : [];
+    return { reply: response.reply, options, errors: [] };
+  }
+  return { errors: ['Response must contain either "reply" or "result"'] };
+};
@@ -0,0 +1,63 @@
+import TelegramBot from "node-telegram-bot-api";
+import { ConversationAttachment } from "../managers/ConversationTurn";
+
+/**
+ * Returns the files attached to the message which the bot can pass to the model.
+ * Photos are taken in their largest size, image documents are returned as images.
+ * Voice messages and audio files are returned as audio to be transcribed.
+ * @param message - The received message.
+ * @returns The attachments of the message.
+ */
+export const getMessageAttachments = (
+  message: TelegramBot.Message
+): ConversationAttachment[] => {
+  const attachments: ConversationAttachment[] = [];
+
+  const photo = message.photo?.[message.photo.length - 1];
+  if (photo) {
+    attachments.push({
+      type: "image",
+      fileId: photo.file_id,
+      mimeType: "image/jpeg",
+    });
+  }
+
+  const { document } = message;
+  if (document) {
+    attachments.push({
+      type: document.mime_type?.startsWith("image/") ? "image" : "document",
+      fileId: document.file_id,
+      mimeType: document.mime_type,
+      fileName: document.file_name,
+      fileSize: document.file_size,
+    });
+  }
+
+  const audio = message.voice || message.audio;
+  if (audio) {
+    attachments.push({
+      type: "audio",
+      fileId: audio.file_id,
+      mimeType: audio.mime_type || "audio/ogg",
+    });
+  }
+
+  return attachments;
+};
+
+/**
+ * Downloads a file from Telegram.
+ * @param telegramBot - The Telegram bot which received the file.
+ * @param fileId - The Telegram file ID.
+ * @returns The content of the file.
+ */
+export const downloadFile = async (
+  telegramBot: TelegramBot,
+  fileId: string
+): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of telegramBot.getFileStream(fileId)) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
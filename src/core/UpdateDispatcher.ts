@@ -0,0 +1,139 @@
+import TelegramBot from "node-telegram-bot-api";
+import { FROM, TYPE, log } from "../utils/logger";
+
+/**
+ * Represents the payloads of the supported Telegram update types.
+ */
+export type BotUpdatePayloads = {
+  message: TelegramBot.Message;
+  edited_message: TelegramBot.Message;
+  channel_post: TelegramBot.Message;
+  callback_query: TelegramBot.CallbackQuery;
+  my_chat_member: TelegramBot.ChatMemberUpdated;
+};
+
+/**
+ * Represents a supported Telegram update type.
+ */
+export type BotUpdateType = keyof BotUpdatePayloads;
+
+/**
+ * Represents a normalized Telegram update, received through a webhook, a Lambda or polling.
+ */
+export type BotUpdate = {
+  [K in BotUpdateType]: {
+    /**
+     * The type of the update.
+     */
+    type: K;
+    /**
+     * The content of the update.
+     */
+    payload: BotUpdatePayloads[K];
+    /**
+     * The ID of the update. Not available in the polling mode.
+     */
+    updateId?: number;
+  };
+}[BotUpdateType];
+
+/**
+ * Represents a hook called for every update of the given type.
+ * @template K - The type of the update.
+ */
+export type BotUpdateHook<K extends BotUpdateType> = (
+  payload: BotUpdatePayloads[K]
+) => void | Promise<void>;
+
+/**
+ * The supported update types in the order they are looked up.
+ */
+export const UPDATE_TYPES: BotUpdateType[] = [
+  "message",
+  "edited_message",
+  "channel_post",
+  "callback_query",
+  "my_chat_member",
+];
+
+/**
+ * Represents a registry of typed hooks which are called for incoming updates.
+ */
+export class UpdateDispatcher {
+  private hooks: { [K in BotUpdateType]?: BotUpdateHook<K>[] } = {};
+
+  /**
+   * Subscribes a hook to updates of the given type.
+   * @param type - The type of the update.
+   * @param hook - The hook to call with the update payload.
+   * @returns The dispatcher, so calls can be chained.
+   */
+  public on<K extends BotUpdateType>(
+    type: K,
+    hook: BotUpdateHook<K>
+  ): UpdateDispatcher {
+    const hooks = (this.hooks[type] || []) as BotUpdateHook<K>[];
+    this.hooks[type] = [...hooks, hook] as (typeof this.hooks)[K];
+    return this;
+  }
+
+  /**
+   * Unsubscribes a hook from updates of the given type.
+   * @param type - The type of the update.
+   * @param hook - The hook to remove.
+   */
+  public off<K extends BotUpdateType>(type: K, hook: BotUpdateHook<K>): void {
+    const hooks = (this.hooks[type] || []) as BotUpdateHook<K>[];
+    this.hooks[type] = hooks.filter(
+      (registeredHook) => registeredHook !== hook
+    ) as (typeof this.hooks)[K];
+  }
+
+  /**
+   * Calls the hooks subscribed to the update type in the order they were added.
+   * A failing hook is logged and does not stop the others.
+   * @param update - The normalized update.
+   * @returns {Promise<void>} A promise that resolves when all hooks are done.
+   */
+  public async dispatch({ type, payload }: BotUpdate): Promise<void> {
+    const hooks = (this.hooks[type] || []) as BotUpdateHook<typeof type>[];
+    for (const hook of hooks) {
+      try {
+        await hook(payload as never);
+      } catch (err) {
+        log(FROM.BOT, TYPE.ERROR, `Update hook error (${type}):`, err);
+      }
+    }
+  }
+
+  /**
+   * Normalizes a raw Telegram update, e.g. the body of a webhook request.
+   * @param update - The raw Telegram update.
+   * @returns The normalized update or undefined if the update type is not supported.
+   */
+  static normalize(update: TelegramBot.Update): BotUpdate | undefined {
+    const type = UPDATE_TYPES.find((type) => !!update?.[type]);
+    if (!type) return;
+    return {
+      type,
+      payload: update[type],
+      updateId: update.update_id,
+    } as BotUpdate;
+  }
+
+  /**
+   * Listens to the supported updates of a polling Telegram bot.
+   * @param telegramBot - The polling Telegram bot.
+   * @param listener - Called with every normalized update.
+   */
+  static listen(
+    telegramBot: TelegramBot,
+    listener: (update: BotUpdate) => void
+  ): void {
+    UPDATE_TYPES.forEach((type) =>
+      telegramBot.on(type, (payload: BotUpdatePayloads[typeof type]) =>
+        listener({ type, payload } as BotUpdate)
+      )
+    );
+  }
+}
@@ -1,10 +1,38 @@
+export * from "./core/AccessPolicy";
+export * from "./core/Addressing";
 export * from "./core/Bot";
+export * from "./core/CommandRouter";
+export * from "./core/QuickReplies";
+export * from "./core/RateLimiter";
+export * from "./core/ReplyRenderer";
+export * from "./core/StructuredResult";
+export * from "./core/UpdateDispatcher";
 export * from "./lambda/Handler";
 export * from "./managers/BotMessageHistory";
+export * from "./managers/ConversationSummarizer";
+export * from "./managers/ConversationTurn";
 export * from "./managers/HistoryManagerInterface";
+export * from "./managers/UsageTracker";
 export * from "./server/DevServer";
+export * from "./services/logging/FileLogSink";
+export * from "./services/logging/LogSinkInterface";
+export * from "./services/metrics/InMemoryMetrics";
+export * from "./services/metrics/MetricsInterface";
+export * from "./services/metrics/NoopMetrics";
+export * from "./services/metrics/OpenTelemetryMetrics";
+export * from "./services/prompt/FailoverPromptService";
+export * from "./services/prompt/GeminiPromptService";
 export * from "./services/prompt/OpenAIPromptService";
 export * from "./services/prompt/PromptServiceInterface";
+export * from "./services/prompt/ToolRegistry";
 export * from "./services/state/DynamoDBService";
 export * from "./services/state/LocalStateService";
 export * from "./services/state/StateServiceInterface";
+export * from "./services/transcription/GeminiTranscriber";
+export * from "./services/transcription/OpenAITranscriber";
+export * from "./services/transcription/TranscriberInterface";
+export * from "./utils/jsonSchema";
+export * from "./utils/logger";
+export * from "./utils/markdown";
+export * from "./utils/metrics";
+export * from "./utils/webhook";
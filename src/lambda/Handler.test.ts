@@ -0,0 +1,53 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { configureLogger } from "../utils/logger";
+import { SECRET_TOKEN_HEADER } from "../utils/webhook";
+import { Handler } from "./Handler";
+
+/**
+ * Creates a webhook request with a message update.
+ */
+const createEvent = (headers: Record<string, string> = {}) =>
+  ({
+    headers,
+    body: JSON.stringify({
+      update_id: 1,
+      message: {
+        message_id: 1,
+        date: 0,
+        chat: { id: 1, type: "private" },
+        text: "Hi",
+      },
+    }),
+  } as unknown as APIGatewayProxyEvent);
+
+beforeAll(() => configureLogger({ sinks: [] }));
+
+describe("Handler.createUpdateLambda", () => {
+  it("rejects requests without the secret token", async () => {
+    const callback = jest.fn();
+    const lambda = Handler.createUpdateLambda(callback, {
+      secretToken: "secret",
+    });
+
+    expect(await lambda(createEvent())).toMatchObject({ statusCode: 401 });
+    expect(
+      await lambda(createEvent({ [SECRET_TOKEN_HEADER]: "wrong" }))
+    ).toMatchObject({ statusCode: 401 });
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it("passes the update of an authentic request to the callback", async () => {
+    const callback = jest.fn();
+    const lambda = Handler.createUpdateLambda(callback, {
+      secretToken: "secret",
+    });
+
+    expect(
+      await lambda(createEvent({ [SECRET_TOKEN_HEADER]: "secret" }))
+    ).toMatchObject({ statusCode: 200, body: "Completed" });
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "message", updateId: 1 }),
+      expect.anything()
+    );
+  });
+});
@@ -1,7 +1,54 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
-import { Message } from "node-telegram-bot-api";
-import { FROM, TYPE, log } from "../utils/logger";
+import { CallbackQuery, Message } from "node-telegram-bot-api";
+import { FROM, TYPE, log, withCorrelationId } from "../utils/logger";
+import { BotUpdate, UpdateDispatcher } from "../core/UpdateDispatcher";
 import { Lambda } from "aws-sdk";
+import { getSecretTokenHeader, isValidSecretToken } from "../utils/webhook";
+
+/**
+ * Represents the options of the lambda functions.
+ */
+export type HandlerOptions = {
+  /**
+   * The secret token the webhook was registered with. Requests without
+   * the matching X-Telegram-Bot-Api-Secret-Token header are rejected with 401.
+   */
+  secretToken?: string;
+};
+
+/**
+ * Checks the secret token of the webhook request.
+ * @param event - The API Gateway event.
+ * @param secretToken - The expected secret token.
+ * @returns The 401 response if the request is not authentic, otherwise undefined.
+ */
+const verifySecretToken = (
+  event: APIGatewayProxyEvent,
+  secretToken?: string
+): APIGatewayProxyResult | undefined => {
+  if (isValidSecretToken(secretToken, getSecretTokenHeader(event?.headers))) {
+    return;
+  }
+  log(FROM.LAMBDA, TYPE.WARN, "Invalid secret token");
+  return {
+    statusCode: 401,
+    body: "Unauthorized",
+  };
+};
+
+/**
+ * Reads the ID of the Telegram update from the webhook request, used as the correlation ID,
+ * so the logs of the proxy and the main lambda can be joined.
+ * @param event - The API Gateway event.
+ * @returns The update ID or undefined if the body is not a Telegram update.
+ */
+const getCorrelationId = (event: APIGatewayProxyEvent): string | undefined => {
+  try {
+    return JSON.parse(event?.body || "{}").update_id?.toString();
+  } catch {
+    return;
+  }
+};
 
 /**
  * Represents a handler class that creates lambda functions.
@@ -9,88 +56,119 @@ import { Lambda } from "aws-sdk";
 export class Handler {
   /**
    * Creates a main lambda function.
-   * @param callback - The callback function to be executed by the lambda.
+   * @param callback - The callback function to be executed by the lambda with the message or the callback query.
+   * @param options - The options of the lambda, e.g. the webhook secret token.
    * @returns An async function that represents the main lambda.
    */
   static createMainLambda(
     callback: (
-      message: Message,
+      message: Message | CallbackQuery,
       event?: APIGatewayProxyEvent
-    ) => void | Promise<void>
+    ) => void | Promise<void>,
+    options: HandlerOptions = {}
   ) {
-    return async (
-      event: APIGatewayProxyEvent
-    ): Promise<APIGatewayProxyResult> => {
-      log(FROM.LAMBDA, TYPE.INFO, "Start");
-      const webhookRequest = JSON.parse(event?.body || "{}");
-
-      if (!webhookRequest?.message) {
-        log(FROM.LAMBDA, TYPE.ERROR, "No message");
-        return {
-          statusCode: 200,
-          body: "No message",
-        };
+    return this.createUpdateLambda(async (update, event) => {
+      if (update.type === "message" || update.type === "callback_query") {
+        await callback(update.payload, event);
       }
+    }, options);
+  }
+
+  /**
+   * Creates a main lambda function which receives every supported update type,
+   * e.g. to pass them to `Bot.processUpdate`.
+   * @param callback - The callback function to be executed by the lambda with the normalized update.
+   * @param options - The options of the lambda, e.g. the webhook secret token.
+   * @returns An async function that represents the main lambda.
+   */
+  static createUpdateLambda(
+    callback: (
+      update: BotUpdate,
+      event?: APIGatewayProxyEvent
+    ) => void | Promise<void>,
+    { secretToken }: HandlerOptions = {}
+  ) {
+    return (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+      withCorrelationId(getCorrelationId(event), async () => {
+        log(FROM.LAMBDA, TYPE.INFO, "Start");
+        const unauthorized = verifySecretToken(event, secretToken);
+        if (unauthorized) return unauthorized;
+        const webhookRequest = JSON.parse(event?.body || "{}");
+        const update = UpdateDispatcher.normalize(webhookRequest);
+
+        if (!update) {
+          log(FROM.LAMBDA, TYPE.ERROR, "No message");
+          return {
+            statusCode: 200,
+            body: "No message",
+          };
+        }
+
+        try {
+          await callback(update, event);
+        } catch (err) {
+          log(FROM.LAMBDA, TYPE.ERROR, `${err}`);
+          return {
+            statusCode: 200,
+            body: "Error",
+          };
+        }
+
+        log(FROM.LAMBDA, TYPE.SUCCESS, "Completed");
 
-      try {
-        await callback(webhookRequest?.message, event);
-      } catch (err) {
-        log(FROM.LAMBDA, TYPE.ERROR, `${err}`);
         return {
           statusCode: 200,
-          body: "Error",
+          body: "Completed",
         };
-      }
-
-      log(FROM.LAMBDA, TYPE.SUCCESS, "Completed");
-
-      return {
-        statusCode: 200,
-        body: "Completed",
-      };
-    };
+      });
   }
 
   /**
    * Creates a proxy lambda function.
    * @param mainLambdaName - The name of the main lambda function to be invoked.
+   * @param secretToken - The webhook secret token, so forged requests never reach the main lambda.
    * @returns An async function that represents the proxy lambda.
    */
-  static createProxyLambda({ mainLambdaName }: { mainLambdaName: string }) {
-    return async (
-      event: APIGatewayProxyEvent
-    ): Promise<APIGatewayProxyResult> => {
-      const lambda = new Lambda();
-      log(FROM.LAMBDA, TYPE.INFO, "Invoking proxy:", event);
+  static createProxyLambda({
+    mainLambdaName,
+    secretToken,
+  }: { mainLambdaName: string } & HandlerOptions) {
+    return (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+      withCorrelationId(getCorrelationId(event), async () => {
+        const lambda = new Lambda();
+        log(FROM.LAMBDA, TYPE.DEBUG, "Invoking proxy:", event);
 
-      if (!mainLambdaName) {
-        log(FROM.LAMBDA, TYPE.ERROR, "Lambda name not found");
-        return {
-          statusCode: 500,
-          body: "Lambda name not found",
-        };
-      }
+        const unauthorized = verifySecretToken(event, secretToken);
+        if (unauthorized) return unauthorized;
+
+        if (!mainLambdaName) {
+          log(FROM.LAMBDA, TYPE.ERROR, "Lambda name not found");
+          return {
+            statusCode: 500,
+            body: "Lambda name not found",
+          };
+        }
+
+        try {
+          await lambda
+            .invoke({
+              FunctionName: mainLambdaName,
+              InvocationType: "Event",
+              Payload: JSON.stringify(event),
+            })
+            .promise();
+        } catch (err) {
+          log(FROM.LAMBDA, TYPE.ERROR, `${err}`);
+          return {
+            statusCode: 500,
+            body: JSON.stringify(err),
+          };
+        }
 
-      try {
-        await lambda
-          .invoke({
-            FunctionName: mainLambdaName,
-            InvocationType: "Event",
-            Payload: JSON.stringify(event),
-          })
-          .promise();
-      } catch (err) {
-        log(FROM.LAMBDA, TYPE.ERROR, `${err}`);
         return {
-          statusCode: 500,
-          body: JSON.stringify(err),
+          statusCode: 200,
+          body: "",
         };
-      }
-
-      return {
-        statusCode: 200,
-        body: "",
-      };
-    };
+      });
   }
 }
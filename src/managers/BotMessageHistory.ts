@@ -1,41 +1,77 @@
-import OpenAI from "openai";
 import { HistoryManagerInterface } from "./HistoryManagerInterface";
+import { ConversationTurn, trimTurns } from "./ConversationTurn";
+import { ConversationSummarizer } from "./ConversationSummarizer";
 import { StateServiceInterface } from "../services/state/StateServiceInterface";
+import { PromptOptions } from "../services/prompt/PromptServiceInterface";
 import { FROM, TYPE, log } from "../utils/logger";
 
 export type BotMessageHistoryConfig = {
-  stateService: StateServiceInterface<OpenAI.Chat.Completions.ChatCompletionMessageParam>;
+  stateService: StateServiceInterface<ConversationTurn>;
+  /**
+   * The maximum number of stored turns, system turns excluded. The oldest turns are dropped first.
+   */
+  maxTurns?: number;
+  /**
+   * Compresses the older turns into a summary before the history is saved.
+   */
+  summarizer?: ConversationSummarizer;
 };
 
 /**
  * Represents a manager for storing and retrieving chat message history.
  */
 export class BotMessageHistory
-  implements
-    HistoryManagerInterface<OpenAI.Chat.Completions.ChatCompletionMessageParam>
+  implements HistoryManagerInterface<ConversationTurn>
 {
-  private stateService: StateServiceInterface<OpenAI.Chat.Completions.ChatCompletionMessageParam>;
+  private stateService: StateServiceInterface<ConversationTurn>;
+  private maxTurns?: number;
+  private summarizer?: ConversationSummarizer;
 
   /**
    * Creates a new instance of BotMessageHistory.
    * @param {BotMessageHistoryConfig} config - The configuration object for BotMessageHistory.
    */
-  constructor({ stateService }: BotMessageHistoryConfig) {
+  constructor({ stateService, maxTurns, summarizer }: BotMessageHistoryConfig) {
     this.stateService = stateService;
+    this.maxTurns = maxTurns;
+    this.summarizer = summarizer;
   }
 
   /**
    * Updates the history of the conversation.
+   * Long conversations are summarized first, if a summarizer is configured.
    * @param {string} id - The ID of the conversation.
-   * @param {OpenAI.Chat.Completions.ChatCompletionMessageParam[]} messages - The messages to be saved.
+   * @param {ConversationTurn[]} messages - The messages to be saved.
+   * @param {PromptOptions} promptOptions - The options of the summary prompt, e.g. the usage callback.
    * @returns {Promise<void>} A promise that resolves when the history is updated.
    */
   public async setHistoryById(
     id: string,
-    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+    messages: ConversationTurn[],
+    promptOptions?: PromptOptions
   ): Promise<void> {
     try {
-      await this.stateService.setItemById(id, messages);
+      const turns = this.summarizer
+        ? await this.summarizer.summarize(messages, promptOptions)
+        : messages;
+      await this.stateService.setItemById(
+        id,
+        trimTurns(turns, { maxTurns: this.maxTurns })
+      );
+    } catch (error) {
+      log(FROM.HISTORY, TYPE.ERROR, error);
+    }
+    return;
+  }
+
+  /**
+   * Deletes the history of the conversation.
+   * @param {string} id - The ID of the conversation.
+   * @returns {Promise<void>} A promise that resolves when the history is deleted.
+   */
+  public async deleteHistoryById(id: string): Promise<void> {
+    try {
+      await this.stateService.deleteItemById(id);
     } catch (error) {
       log(FROM.HISTORY, TYPE.ERROR, error);
     }
@@ -45,11 +81,9 @@ export class BotMessageHistory
   /**
    * Retrieves the history of the conversation.
    * @param {string} id - The ID of the conversation.
-   * @returns {Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]>} A promise that resolves with the conversation history.
+   * @returns {Promise<ConversationTurn[]>} A promise that resolves with the conversation history.
    */
-  public async getHistoryById(
-    id: string
-  ): Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]> {
+  public async getHistoryById(id: string): Promise<ConversationTurn[]> {
     try {
       return await this.stateService.getItemById(id);
     } catch (error) {
@@ -60,13 +94,10 @@ export class BotMessageHistory
 
   /**
    * Retrieves the content of the last message in the history.
-   * @param {OpenAI.Chat.Completions.ChatCompletionMessageParam[]} history - The chat message history.
+   * @param {ConversationTurn[]} history - The chat message history.
    * @returns {string} The content of the last message, or an empty string if the history is empty.
    */
-  public getLastMessage(
-    history: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
-  ): string {
-    console.log(history);
-    return String(history.at(-1)?.content) || "";
+  public getLastMessage(history: ConversationTurn[]): string {
+    return history.at(-1)?.text || "";
   }
 }
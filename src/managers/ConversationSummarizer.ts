@@ -0,0 +1,153 @@
+import { ConversationTurn, createTurn } from "./ConversationTurn";
+import {
+  PromptOptions,
+  PromptServiceInterface,
+} from "../services/prompt/PromptServiceInterface";
+import { FROM, TYPE, log } from "../utils/logger";
+import { describeAttachments } from "../utils/attachments";
+
+/**
+ * Configuration object for the ConversationSummarizer.
+ */
+export type ConversationSummarizerConfig = {
+  /**
+   * The prompt service which writes the summary.
+   */
+  promptService: PromptServiceInterface<ConversationTurn>;
+  /**
+   * The number of turns, system turns excluded, after which older turns are summarized.
+   */
+  maxTurns: number;
+  /**
+   * The number of the latest turns kept as they are. Defaults to 4.
+   */
+  keepTurns?: number;
+  /**
+   * The system prompt of the summary request.
+   */
+  prompt?: string;
+};
+
+const DEFAULT_KEEP_TURNS = 4;
+
+const DEFAULT_SUMMARY_PROMPT =
+  "You summarize conversations between users and an assistant. " +
+  "Write a short summary of the conversation below, keeping every fact, " +
+  "decision and piece of data the user provided, so the assistant can continue the conversation. " +
+  "Answer with the summary only.";
+
+/**
+ * Checks whether the turn is a conversation summary.
+ * @param turn - The conversation turn.
+ * @returns True if the turn is a summary.
+ */
+export const isSummaryTurn = (turn: ConversationTurn): boolean =>
+  turn.role === "system" && !!turn.metadata?.summary;
+
+/**
+ * Represents a summarizer which compresses older turns of a long conversation
+ * into a single summary turn, stored as a system turn of the history.
+ */
+export class ConversationSummarizer {
+  private promptService: PromptServiceInterface<ConversationTurn>;
+  private maxTurns: number;
+  private keepTurns: number;
+  private prompt: string;
+
+  /**
+   * Creates a new instance of ConversationSummarizer.
+   * @param {ConversationSummarizerConfig} config - The configuration object for ConversationSummarizer.
+   * @throws {Error} Throws an error if keepTurns is not less than maxTurns.
+   */
+  constructor({
+    promptService,
+    maxTurns,
+    keepTurns = DEFAULT_KEEP_TURNS,
+    prompt = DEFAULT_SUMMARY_PROMPT,
+  }: ConversationSummarizerConfig) {
+    if (keepTurns >= maxTurns) {
+      throw new Error("keepTurns must be less than maxTurns");
+    }
+    this.promptService = promptService;
+    this.maxTurns = maxTurns;
+    this.keepTurns = keepTurns;
+    this.prompt = prompt;
+    return this;
+  }
+
+  /**
+   * Replaces the older turns with a summary once the conversation passes the configured size.
+   * The previous summary is folded into the new one. The kept turns always start with a user turn,
+   * so no tool result loses its call.
+   * @param turns - The conversation turns.
+   * @param options - The options of the summary prompt, e.g. the usage callback.
+   * @returns The summarized turns, or the same turns if no summary is needed or it failed.
+   */
+  public async summarize(
+    turns: ConversationTurn[],
+    options: PromptOptions = {}
+  ): Promise<ConversationTurn[]> {
+    const otherTurns = turns.filter(({ role }) => role !== "system");
+    if (otherTurns.length <= this.maxTurns) return turns;
+
+    let start = otherTurns.length - this.keepTurns;
+    while (start < otherTurns.length && otherTurns[start].role !== "user") {
+      start++;
+    }
+    if (start === otherTurns.length) return turns;
+
+    const previousSummary = turns.find(isSummaryTurn);
+    const transcript = [
+      ...(previousSummary
+        ? [`Summary of the earlier conversation: ${previousSummary.text}`]
+        : []),
+      ...otherTurns.slice(0, start).map(this.toTranscriptLine),
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    try {
+      const newTurns = await this.promptService.makePrompt(
+        "summarizer",
+        transcript,
+        [],
+        { ...options, systemPrompt: this.prompt, plainText: true }
+      );
+      const summary = this.promptService.getLastMessage(newTurns);
+      if (!summary) throw new Error("Empty summary");
+
+      log(FROM.HISTORY, TYPE.SUCCESS, `Summarized ${start} turns`);
+      return [
+        ...turns.filter(
+          (turn) => turn.role === "system" && !isSummaryTurn(turn)
+        ),
+        createTurn("system", summary, {
+          metadata: { summary: true, summarizedTurns: start },
+        }),
+        ...otherTurns.slice(start),
+      ];
+    } catch (err) {
+      log(FROM.HISTORY, TYPE.ERROR, "Summary error:", err);
+      return turns;
+    }
+  }
+
+  /**
+   * Renders a turn as a line of the transcript sent to the model.
+   * @param turn - The conversation turn.
+   * @returns The transcript line, or an empty string if the turn has no content.
+   */
+  private toTranscriptLine(turn: ConversationTurn): string {
+    const { role, author, toolResults } = turn;
+    if (role === "tool") {
+      return (toolResults || [])
+        .map(({ name, result }) => `tool ${name}: ${JSON.stringify(result)}`)
+        .join("\n");
+    }
+    const text = [turn.text, describeAttachments(turn)]
+      .filter(Boolean)
+      .join(" ");
+    if (!text) return "";
+    return `${role === "user" ? author || "user" : "assistant"}: ${text}`;
+  }
+}
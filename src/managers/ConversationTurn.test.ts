@@ -0,0 +1,47 @@
+import { createTurn, estimateTurnTokens, trimTurns } from "./ConversationTurn";
+
+describe("trimTurns", () => {
+  const document = createTurn("system", "Document ".repeat(200));
+  const summary = createTurn("system", "Summary of the conversation");
+  const turns = [
+    document,
+    summary,
+    createTurn("user", "First question"),
+    createTurn("assistant", "First answer"),
+    createTurn("user", "Second question"),
+  ];
+  const tokensOf = (kept: typeof turns) =>
+    kept.reduce((sum, turn) => sum + estimateTurnTokens(turn), 0);
+
+  it("keeps the turns which fit", () => {
+    expect(trimTurns(turns, { maxTokens: tokensOf(turns) })).toBe(turns);
+  });
+
+  it("drops the oldest exchanges before the system turns", () => {
+    expect(trimTurns(turns, { maxTokens: tokensOf(turns) - 1 })).toEqual([
+      document,
+      summary,
+      turns[4],
+    ]);
+  });
+
+  it("drops the oldest system turns when only they can make the history fit", () => {
+    const trimmed = trimTurns(turns, {
+      maxTokens: tokensOf([summary, turns[4]]),
+    });
+
+    expect(trimmed).toEqual([summary, turns[4]]);
+  });
+
+  it("always keeps the last user turn", () => {
+    expect(trimTurns(turns, { maxTokens: 0 })).toEqual([turns[4]]);
+  });
+
+  it("does not count the system turns against maxTurns", () => {
+    expect(trimTurns(turns, { maxTurns: 1 })).toEqual([
+      document,
+      summary,
+      turns[4],
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+import { estimateMessageTokens } from "../utils/tokens";
+
+/**
+ * Represents the role of a conversation turn.
+ */
+export type ConversationRole = "system" | "user" | "assistant" | "tool";
+
+/**
+ * Represents a file attached to a conversation turn.
+ * Only a reference is stored, never the raw file content.
+ */
+export type ConversationAttachment = {
+  /**
+   * The kind of the attachment.
+   */
+  type: "image" | "audio" | "document";
+  /**
+   * The Telegram file ID of the attachment.
+   */
+  fileId?: string;
+  /**
+   * The URL of the attachment.
+   */
+  url?: string;
+  /**
+   * The MIME type of the attachment.
+   */
+  mimeType?: string;
+  /**
+   * The original file name of the attachment.
+   */
+  fileName?: string;
+  /**
+   * The size of the file in bytes.
+   */
+  fileSize?: number;
+};
+
+/**
+ * Represents a tool call requested by the model.
+ */
+export type ConversationToolCall = {
+  /**
+   * The ID linking the call to its result.
+   */
+  id: string;
+  /**
+   * The name of the called tool.
+   */
+  name: string;
+  /**
+   * The arguments provided by the model.
+   */
+  arguments: Record<string, unknown>;
+};
+
+/**
+ * Represents the result of a tool call sent back to the model.
+ */
+export type ConversationToolResult = {
+  /**
+   * The ID of the tool call.
+   */
+  id: string;
+  /**
+   * The name of the called tool.
+   */
+  name: string;
+  /**
+   * The result of the tool.
+   */
+  result: Record<string, unknown>;
+};
+
+/**
+ * Represents the tokens a model call consumed, stored in the metadata of the assistant turn it produced.
+ */
+export type TokenUsage = {
+  /**
+   * The number of tokens of the prompt.
+   */
+  promptTokens: number;
+  /**
+   * The number of tokens of the answer.
+   */
+  completionTokens: number;
+  /**
+   * Whether the numbers are estimated because the provider did not report them.
+   */
+  estimated?: boolean;
+};
+
+/**
+ * Represents a provider-agnostic turn of a conversation.
+ * Prompt services convert turns to and from their wire format,
+ * so a conversation started on one provider can continue on another.
+ */
+export type ConversationTurn = {
+  /**
+   * The role of the turn.
+   */
+  role: ConversationRole;
+  /**
+   * The author of the turn, e.g. the username for user turns.
+   */
+  author?: string;
+  /**
+   * The text content of the turn.
+   */
+  text: string;
+  /**
+   * The ISO 8601 timestamp of when the turn was created.
+   */
+  createdAt: string;
+  /**
+   * The files attached to the turn.
+   */
+  attachments?: ConversationAttachment[];
+  /**
+   * The tool calls requested by the model in an assistant turn.
+   */
+  toolCalls?: ConversationToolCall[];
+  /**
+   * The tool results of a tool turn.
+   */
+  toolResults?: ConversationToolResult[];
+  /**
+   * Additional information about the turn, e.g. the provider which produced it.
+   */
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Creates a new conversation turn.
+ * @param role - The role of the turn.
+ * @param text - The text content of the turn.
+ * @param fields - Additional fields of the turn.
+ * @returns The conversation turn.
+ */
+export const createTurn = (
+  role: ConversationRole,
+  text: string,
+  fields: Partial<Omit<ConversationTurn, "role" | "text">> = {}
+): ConversationTurn => ({
+  role,
+  text,
+  createdAt: new Date().toISOString(),
+  ...fields,
+});
+
+/**
+ * Returns the token usage of the model call which produced the turn.
+ * @param turn - The conversation turn.
+ * @returns The token usage or undefined if the turn was not produced by a model call.
+ */
+export const getTurnUsage = ({
+  metadata,
+}: ConversationTurn): TokenUsage | undefined =>
+  metadata?.usage as TokenUsage | undefined;
+
+/**
+ * Represents the limits the conversation history is trimmed to.
+ */
+export type TrimTurnsOptions = {
+  /**
+   * The maximum number of turns, system turns excluded.
+   */
+  maxTurns?: number;
+  /**
+   * The maximum estimated number of tokens of all turns.
+   */
+  maxTokens?: number;
+};
+
+/**
+ * Estimates the number of tokens a turn takes in a prompt.
+ * @param turn - The conversation turn.
+ * @returns The estimated number of tokens.
+ */
+export const estimateTurnTokens = (turn: ConversationTurn): number =>
+  estimateMessageTokens(
+    turn.text +
+      (turn.toolCalls ? JSON.stringify(turn.toolCalls) : "") +
+      (turn.toolResults ? JSON.stringify(turn.toolResults) : "")
+  );
+
+/**
+ * Drops the oldest turns until the history fits into the limits.
+ * The last user turn is always kept, and the remaining history always starts
+ * with a user turn so no tool result loses its call. System turns, e.g. documents
+ * and summaries, count against maxTokens and are dropped oldest first only when
+ * no other turn can be dropped.
+ * @param turns - The conversation turns.
+ * @param options - The limits to trim the history to.
+ * @returns The trimmed conversation turns.
+ */
+export const trimTurns = (
+  turns: ConversationTurn[],
+  { maxTurns = Infinity, maxTokens = Infinity }: TrimTurnsOptions
+): ConversationTurn[] => {
+  const systemTurns = turns.filter(({ role }) => role === "system");
+  const otherTurns = turns.filter(({ role }) => role !== "system");
+  let tokens = turns.reduce((sum, turn) => sum + estimateTurnTokens(turn), 0);
+
+  let start = 0;
+  const lastUserIndex = otherTurns.reduce(
+    (lastIndex, { role }, index) => (role === "user" ? index : lastIndex),
+    otherTurns.length - 1
+  );
+  while (
+    start < lastUserIndex &&
+    (otherTurns.length - start > maxTurns ||
+      tokens > maxTokens ||
+      otherTurns[start].role !== "user")
+  ) {
+    tokens -= estimateTurnTokens(otherTurns[start]);
+    start++;
+  }
+
+  let systemStart = 0;
+  while (systemStart < systemTurns.length && tokens > maxTokens) {
+    tokens -= estimateTurnTokens(systemTurns[systemStart]);
+    systemStart++;
+  }
+
+  return start || systemStart
+    ? [...systemTurns.slice(systemStart), ...otherTurns.slice(start)]
+    : turns;
+};
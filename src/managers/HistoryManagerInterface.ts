@@ -1,3 +1,5 @@
+import { PromptOptions } from "../services/prompt/PromptServiceInterface";
+
 /**
  * Represents the interface for a history manager.
  * @template T - The type of history items.
@@ -14,9 +16,21 @@ export interface HistoryManagerInterface<T> {
    * Sets the history by its ID.
    * @param id - The ID of the history.
    * @param newHistory - The new history to set.
+   * @param promptOptions - The options of the prompts made while the history is set, e.g. for a summary.
    * @returns A promise that resolves when the history is set.
    */
-  setHistoryById(id: string, newHistory: T[]): Promise<void>;
+  setHistoryById(
+    id: string,
+    newHistory: T[],
+    promptOptions?: PromptOptions
+  ): Promise<void>;
+
+  /**
+   * Deletes the history by its ID.
+   * @param id - The ID of the history.
+   * @returns A promise that resolves when the history is deleted.
+   */
+  deleteHistoryById(id: string): Promise<void>;
 
   /**
    * Retrieves the last message from the history.
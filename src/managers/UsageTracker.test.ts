@@ -0,0 +1,45 @@
+import { LocalStateService } from "../services/state/LocalStateService";
+import { UsageTracker } from "./UsageTracker";
+
+describe("UsageTracker", () => {
+  it("adds up the calls of the chat and of the bot with their cost", async () => {
+    const tracker = new UsageTracker({
+      stateService: new LocalStateService(),
+      prices: { "gpt-4o": { prompt: 2, completion: 8 } },
+    });
+
+    await tracker.record(
+      1,
+      { promptTokens: 1000, completionTokens: 500 },
+      "gpt-4o-mini"
+    );
+    await tracker.record(2, { promptTokens: 10, completionTokens: 5 });
+
+    expect(await tracker.getChatUsage(1)).toEqual({
+      calls: 1,
+      promptTokens: 1000,
+      completionTokens: 500,
+      cost: 0.006,
+    });
+    expect(await tracker.getBotUsage()).toEqual({
+      calls: 2,
+      promptTokens: 1010,
+      completionTokens: 505,
+      cost: 0.006,
+    });
+  });
+
+  it("reads the usage without writing the counters", async () => {
+    const stateService = new LocalStateService();
+    const increment = jest.spyOn(stateService, "incrementCounterById");
+    const tracker = new UsageTracker({ stateService });
+
+    expect(await tracker.getChatUsage(1, "2024-01")).toEqual({
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+    });
+    expect(increment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,238 @@
+import moment from "moment";
+import { ConversationTurn, TokenUsage, getTurnUsage } from "./ConversationTurn";
+import { StateServiceInterface } from "../services/state/StateServiceInterface";
+
+/**
+ * Represents the price of a model in USD per million tokens.
+ */
+export type ModelPrice = {
+  /**
+   * The price of a million prompt tokens.
+   */
+  prompt: number;
+  /**
+   * The price of a million completion tokens.
+   */
+  completion: number;
+};
+
+/**
+ * Represents the prices by model name. A name also matches the models it prefixes,
+ * e.g. "gpt-4o" matches "gpt-4o-2024-05-13", and the longest matching name wins.
+ */
+export type ModelPrices = Record<string, ModelPrice>;
+
+/**
+ * Represents the added up usage of model calls.
+ */
+export type UsageSummary = {
+  /**
+   * The number of model calls.
+   */
+  calls: number;
+  /**
+   * The number of prompt tokens.
+   */
+  promptTokens: number;
+  /**
+   * The number of completion tokens.
+   */
+  completionTokens: number;
+  /**
+   * The cost in USD. Calls of models missing from the price table cost nothing.
+   */
+  cost: number;
+};
+
+/**
+ * Configuration object for the UsageTracker.
+ */
+export type UsageTrackerConfig = {
+  /**
+   * The state service which keeps the counters.
+   */
+  stateService: StateServiceInterface<ConversationTurn>;
+  /**
+   * The prices by model name.
+   */
+  prices?: ModelPrices;
+};
+
+/**
+ * The number of seconds the monthly counters are kept, so months can be compared over a year.
+ */
+const USAGE_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+/**
+ * The counted fields. The cost is counted in millionths of USD to keep the counters whole numbers.
+ */
+const USAGE_FIELDS = [
+  "calls",
+  "promptTokens",
+  "completionTokens",
+  "costMicros",
+] as const;
+
+type UsageCounters = Record<(typeof USAGE_FIELDS)[number], number>;
+
+/**
+ * Formats the usage for a chat message.
+ * @param usage - The usage summary.
+ * @returns The formatted usage.
+ */
+export const formatUsage = ({
+  calls,
+  promptTokens,
+  completionTokens,
+  cost,
+}: UsageSummary): string =>
+  `${calls} calls, ${promptTokens} prompt and ${completionTokens} completion tokens, $${cost.toFixed(
+    4
+  )}`;
+
+/**
+ * Represents a tracker which adds up the token usage and the cost of model calls
+ * per chat and for the whole bot, in monthly counters kept through the state service.
+ */
+export class UsageTracker {
+  private stateService: StateServiceInterface<ConversationTurn>;
+  private prices: ModelPrices;
+
+  /**
+   * Creates a new instance of UsageTracker.
+   * @param {UsageTrackerConfig} config - The configuration object for UsageTracker.
+   */
+  constructor({ stateService, prices }: UsageTrackerConfig) {
+    this.stateService = stateService;
+    this.prices = prices || {};
+    return this;
+  }
+
+  /**
+   * Calculates the cost of the model calls which produced the turns.
+   * @param turns - The conversation turns, e.g. the history of a conversation.
+   * @returns The added up usage of the turns.
+   */
+  public summarize(turns: ConversationTurn[]): UsageSummary {
+    return turns.reduce(
+      (summary, turn) => {
+        const usage = getTurnUsage(turn);
+        if (!usage) return summary;
+        return {
+          calls: summary.calls + 1,
+          promptTokens: summary.promptTokens + usage.promptTokens,
+          completionTokens: summary.completionTokens + usage.completionTokens,
+          cost: summary.cost + this.getCost(usage, turn.metadata?.model),
+        };
+      },
+      { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+    );
+  }
+
+  /**
+   * Adds the usage of a model call to the counters of the chat and of the bot.
+   * @param chatId - The chat the call was made for.
+   * @param usage - The token usage of the call.
+   * @param model - The model of the call.
+   * @returns {Promise<void>} A promise that resolves when the counters are updated.
+   */
+  public async record(chatId: number, usage: TokenUsage, model?: string) {
+    const counters: UsageCounters = {
+      calls: 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costMicros: Math.round(this.getCost(usage, model) * 1e6),
+    };
+    const month = this.getMonth();
+    for (const subject of [`chat:${chatId}`, "bot"]) {
+      await Promise.all(
+        USAGE_FIELDS.map((field) =>
+          this.stateService.incrementCounterById(
+            `usage:${subject}:${month}:${field}`,
+            counters[field],
+            USAGE_TTL_SECONDS
+          )
+        )
+      );
+    }
+  }
+
+  /**
+   * Returns the usage of a chat in a month.
+   * @param chatId - The chat.
+   * @param month - The month in the "YYYY-MM" format. Defaults to the current month in UTC.
+   * @returns {Promise<UsageSummary>} The usage of the chat.
+   */
+  public async getChatUsage(
+    chatId: number,
+    month: string = this.getMonth()
+  ): Promise<UsageSummary> {
+    return this.readCounters(`chat:${chatId}`, month);
+  }
+
+  /**
+   * Returns the usage of all chats of the bot in a month.
+   * @param month - The month in the "YYYY-MM" format. Defaults to the current month in UTC.
+   * @returns {Promise<UsageSummary>} The usage of the bot.
+   */
+  public async getBotUsage(
+    month: string = this.getMonth()
+  ): Promise<UsageSummary> {
+    return this.readCounters("bot", month);
+  }
+
+  /**
+   * Returns the current month in UTC.
+   * @returns The month in the "YYYY-MM" format.
+   */
+  public getMonth(): string {
+    return moment.utc().format("YYYY-MM");
+  }
+
+  /**
+   * Reads the monthly counters of a subject.
+   * @param subject - The chat or the bot.
+   * @param month - The month in the "YYYY-MM" format.
+   * @returns The usage of the subject.
+   */
+  private async readCounters(
+    subject: string,
+    month: string
+  ): Promise<UsageSummary> {
+    const values = await Promise.all(
+      USAGE_FIELDS.map((field) =>
+        this.stateService.getCounterById(`usage:${subject}:${month}:${field}`)
+      )
+    );
+    const [calls, promptTokens, completionTokens, costMicros] = values;
+    return { calls, promptTokens, completionTokens, cost: costMicros / 1e6 };
+  }
+
+  /**
+   * Calculates the cost of a model call.
+   * @param usage - The token usage of the call.
+   * @param model - The name of the model.
+   * @returns The cost in USD, 0 if the model is not in the table.
+   */
+  private getCost(usage: TokenUsage, model: unknown): number {
+    const price = this.getPrice(model);
+    return (
+      ((price?.prompt || 0) * usage.promptTokens +
+        (price?.completion || 0) * usage.completionTokens) /
+      1e6
+    );
+  }
+
+  /**
+   * Returns the price of a model, matching the longest model name in the table which prefixes it.
+   * @param model - The name of the model.
+   * @returns The price or undefined if the model is not in the table.
+   */
+  private getPrice(model: unknown): ModelPrice | undefined {
+    if (typeof model !== "string") return;
+    const name = Object.keys(this.prices)
+      .filter((name) => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return name ? this.prices[name] : undefined;
+  }
+}
@@ -1,31 +1,66 @@
 import bodyParser from "body-parser";
 import express from "express";
-import { Bot, BotCreateConfig } from "../core/Bot";
-import { FROM, TYPE, log } from "../utils/logger";
-import TelegramBot from "node-telegram-bot-api";
+import { Bot, BotCreateConfig, BotIncomingMessage } from "../core/Bot";
+import { BotUpdate, UpdateDispatcher } from "../core/UpdateDispatcher";
+import { FROM, TYPE, log, withCorrelationId } from "../utils/logger";
+import { getSecretTokenHeader, isValidSecretToken } from "../utils/webhook";
 
-export type ServerCallback = (message: TelegramBot.Message, bot: Bot) => void;
+export type ServerCallback = (message: BotIncomingMessage, bot: Bot) => void;
+
+export type ServerUpdateCallback = (update: BotUpdate, bot: Bot) => void;
+
+/**
+ * Represents the options of the development server.
+ */
+export type DevServerOptions = {
+  /**
+   * The secret token the webhook was registered with. Webhook requests without
+   * the matching X-Telegram-Bot-Api-Secret-Token header are rejected with 401.
+   */
+  secretToken?: string;
+};
 
 /**
  * Represents a development server for handling incoming messages.
  */
 export class DevServer {
   private bot: Bot;
+  private secretToken?: string;
 
   /**
    * Creates a new instance of the DevServer class.
    * @param botConfig - The configuration for creating the bot.
+   * @param options - The options of the server, e.g. the webhook secret token.
    */
-  constructor(botConfig: BotCreateConfig) {
+  constructor(
+    botConfig: BotCreateConfig,
+    { secretToken }: DevServerOptions = {}
+  ) {
     this.bot = Bot.createBot(botConfig);
+    this.secretToken = secretToken;
     return this;
   }
 
   /**
    * Sets up the message event handler and starts the server.
+   * Only messages and callback queries are passed to the callback.
    * @param callback - The callback function to be executed when a message is received.
    */
   public onMessage(callback: ServerCallback) {
+    this.onUpdate((update, bot) => {
+      if (update.type === "message" || update.type === "callback_query") {
+        callback(update.payload, bot);
+      }
+    });
+  }
+
+  /**
+   * Sets up the update event handler and starts the server.
+   * Every supported update type is passed to the callback, e.g. for `Bot.processUpdate`.
+   * @param callback - The callback function to be executed when an update is received.
+   */
+  public onUpdate(callback: ServerUpdateCallback) {
+    this.bot.publishCommands();
     if (this.bot.telegramBot.isPolling()) {
       log(FROM.SERVER, TYPE.INFO, "Starting polling server");
       this.startPollingServer(callback);
@@ -36,25 +71,25 @@ export class DevServer {
   }
 
   /**
-   * Starts the polling server and sets up the message event handler.
-   * @param callback - The callback function to be executed when a message is received.
+   * Starts the polling server and sets up the update event handler.
+   * @param callback - The callback function to be executed when an update is received.
    */
-  private startPollingServer(callback: ServerCallback) {
+  private startPollingServer(callback: ServerUpdateCallback) {
     const telegramBot = this.bot.telegramBot;
     if (telegramBot.isPolling()) {
-      telegramBot.on("message", async (message) => {
-        callback(message, this.bot);
-      });
+      UpdateDispatcher.listen(telegramBot, (update) =>
+        withCorrelationId(undefined, () => callback(update, this.bot))
+      );
     } else {
       log(FROM.SERVER, TYPE.ERROR, "Bot is not polling");
     }
   }
 
   /**
-   * Starts the webhook server and sets up the message event handler.
-   * @param callback - The callback function to be executed when a message is received.
+   * Starts the webhook server and sets up the update event handler.
+   * @param callback - The callback function to be executed when an update is received.
    */
-  private startWebhookServer(callback: ServerCallback) {
+  private startWebhookServer(callback: ServerUpdateCallback) {
     const app = express();
     const port = process.env.LOCAL_PORT;
 
@@ -67,13 +102,27 @@ export class DevServer {
      * @param res - The response object
      */
     app.post("/webhook", (req: any, res: any) => {
-      const { message } = req.body;
-      callback(message, this.bot);
+      const receivedToken = getSecretTokenHeader(req.headers);
+      if (!isValidSecretToken(this.secretToken, receivedToken)) {
+        log(FROM.SERVER, TYPE.WARN, "Invalid secret token");
+        res.status(401).send("Unauthorized");
+        return;
+      }
+      const update = UpdateDispatcher.normalize(req.body);
+      if (update) {
+        withCorrelationId(update.updateId?.toString(), () =>
+          callback(update, this.bot)
+        );
+      }
       res.status(200).send("Acknowledged");
     });
 
     app.listen(port, () => {
-      console.info(`Webhook server is listening at https://localhost:${port}`);
+      log(
+        FROM.SERVER,
+        TYPE.INFO,
+        `Webhook server is listening at https://localhost:${port}`
+      );
     });
   }
 }
@@ -0,0 +1,39 @@
+import fs from "fs";
+import { LogEntry, LogSinkInterface } from "./LogSinkInterface";
+
+/**
+ * Configuration options for FileLogSink.
+ */
+export type FileLogSinkConfig = {
+  /**
+   * The path of the file the JSON lines are appended to.
+   */
+  path: string;
+};
+
+/**
+ * Represents a sink which appends log entries to a file as JSON lines.
+ */
+export class FileLogSink implements LogSinkInterface {
+  private stream: fs.WriteStream;
+
+  /**
+   * Creates a new instance of FileLogSink. The file is created if it does not exist.
+   * @param {FileLogSinkConfig} config - The configuration options for the sink.
+   */
+  constructor({ path }: FileLogSinkConfig) {
+    this.stream = fs.createWriteStream(path, { flags: "a" });
+    this.stream.on("error", (err) =>
+      console.error("Log file write error:", err)
+    );
+    return this;
+  }
+
+  /**
+   * Appends the log entry to the file.
+   * @param entry - The log entry.
+   */
+  public write(entry: LogEntry): void {
+    this.stream.write(`${JSON.stringify(entry)}\n`);
+  }
+}
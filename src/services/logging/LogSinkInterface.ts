@@ -0,0 +1,42 @@
+import type { FROM, TYPE } from "../../utils/logger";
+
+/**
+ * Represents a structured log entry, written as a JSON line.
+ */
+export type LogEntry = {
+  /**
+   * The ISO 8601 timestamp of the entry.
+   */
+  timestamp: string;
+  /**
+   * The log level.
+   */
+  level: TYPE;
+  /**
+   * The origin of the entry.
+   */
+  from: FROM;
+  /**
+   * The text messages of the entry, redacted.
+   */
+  message: string;
+  /**
+   * The other logged values, serialized and redacted.
+   */
+  data?: unknown[];
+  /**
+   * The ID of the update being processed, shared by all entries it produces.
+   */
+  correlationId?: string;
+};
+
+/**
+ * Represents an interface for a destination of log entries, e.g. the console or a file.
+ */
+export interface LogSinkInterface {
+  /**
+   * Writes a log entry. Must not throw, as logging never stops the bot.
+   * @param entry - The log entry.
+   */
+  write(entry: LogEntry): void;
+}
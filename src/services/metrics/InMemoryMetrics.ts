@@ -0,0 +1,189 @@
+import { AsyncLocalStorage } from "async_hooks";
+import {
+  MetricAttributes,
+  MetricsInterface,
+  SpanInterface,
+} from "./MetricsInterface";
+
+/**
+ * Represents a recorded measurement.
+ */
+export type RecordedMeasurement = {
+  /**
+   * The name of the counter or the histogram.
+   */
+  name: string;
+  /**
+   * The added or recorded value.
+   */
+  value: number;
+  /**
+   * The attributes of the measurement.
+   */
+  attributes: MetricAttributes;
+};
+
+/**
+ * Represents a finished span.
+ */
+export type RecordedSpan = {
+  /**
+   * The name of the span.
+   */
+  name: string;
+  /**
+   * The attributes of the span.
+   */
+  attributes: MetricAttributes;
+  /**
+   * The name of the span it was started in, if any.
+   */
+  parent?: string;
+  /**
+   * The duration of the span in milliseconds.
+   */
+  durationMs: number;
+  /**
+   * The error which failed the span, if any.
+   */
+  error?: unknown;
+};
+
+/**
+ * Checks whether the measurement has all the attributes.
+ * @param measurement - The measurement or the span.
+ * @param expected - The attributes to match.
+ * @returns True if every attribute matches.
+ */
+const hasAttributes = (
+  { attributes }: { attributes: MetricAttributes },
+  expected: MetricAttributes
+): boolean =>
+  Object.keys(expected).every((key) => attributes[key] === expected[key]);
+
+/**
+ * Represents metrics kept in memory, e.g. to check the instrumentation in tests.
+ */
+export class InMemoryMetrics implements MetricsInterface {
+  /**
+   * The counter increments in the order they were made.
+   */
+  public counters: RecordedMeasurement[] = [];
+  /**
+   * The histogram values in the order they were recorded.
+   */
+  public histograms: RecordedMeasurement[] = [];
+  /**
+   * The finished spans in the order they ended.
+   */
+  public spans: RecordedSpan[] = [];
+  private activeSpan = new AsyncLocalStorage<string>();
+
+  /**
+   * Adds to a counter.
+   * @param name - The name of the counter.
+   * @param value - The amount to add. Defaults to 1.
+   * @param attributes - The attributes of the measurement.
+   */
+  public increment(
+    name: string,
+    value: number = 1,
+    attributes: MetricAttributes = {}
+  ): void {
+    this.counters.push({ name, value, attributes });
+  }
+
+  /**
+   * Records a value of a histogram.
+   * @param name - The name of the histogram.
+   * @param value - The recorded value.
+   * @param attributes - The attributes of the measurement.
+   */
+  public record(
+    name: string,
+    value: number,
+    attributes: MetricAttributes = {}
+  ): void {
+    this.histograms.push({ name, value, attributes });
+  }
+
+  /**
+   * Runs the function in a span and keeps the span when the function settles.
+   * @param name - The name of the span.
+   * @param attributes - The attributes of the span.
+   * @param fn - The traced function.
+   * @returns A promise that resolves to the result of the function.
+   */
+  public async trace<T>(
+    name: string,
+    attributes: MetricAttributes,
+    fn: (span: SpanInterface) => Promise<T>
+  ): Promise<T> {
+    const span: RecordedSpan = {
+      name,
+      attributes: { ...attributes },
+      parent: this.activeSpan.getStore(),
+      durationMs: 0,
+    };
+    const start = Date.now();
+    try {
+      return await this.activeSpan.run(name, () =>
+        fn({
+          setAttribute: (key, value) => {
+            span.attributes[key] = value;
+          },
+          recordError: (error) => {
+            span.error = error;
+          },
+        })
+      );
+    } catch (err) {
+      span.error = err;
+      throw err;
+    } finally {
+      span.durationMs = Date.now() - start;
+      this.spans.push(span);
+    }
+  }
+
+  /**
+   * Adds up the increments of a counter.
+   * @param name - The name of the counter.
+   * @param attributes - Only increments with these attributes are added up.
+   * @returns The value of the counter.
+   */
+  public getCounter(name: string, attributes: MetricAttributes = {}): number {
+    return this.counters
+      .filter(
+        (counter) => counter.name === name && hasAttributes(counter, attributes)
+      )
+      .reduce((sum, { value }) => sum + value, 0);
+  }
+
+  /**
+   * Returns the recorded values of a histogram.
+   * @param name - The name of the histogram.
+   * @param attributes - Only values with these attributes are returned.
+   * @returns The recorded values.
+   */
+  public getHistogram(
+    name: string,
+    attributes: MetricAttributes = {}
+  ): number[] {
+    return this.histograms
+      .filter(
+        (histogram) =>
+          histogram.name === name && hasAttributes(histogram, attributes)
+      )
+      .map(({ value }) => value);
+  }
+
+  /**
+   * Removes all recorded measurements and spans.
+   */
+  public reset(): void {
+    this.counters = [];
+    this.histograms = [];
+    this.spans = [];
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Represents the attributes of a measurement or a span, e.g. the provider and the model of a prompt.
+ */
+export type MetricAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Represents a running span of a trace.
+ */
+export interface SpanInterface {
+  /**
+   * Adds an attribute to the span.
+   * @param key - The name of the attribute.
+   * @param value - The value of the attribute.
+   */
+  setAttribute(key: string, value: string | number | boolean): void;
+
+  /**
+   * Marks the span as failed.
+   * @param error - The error which failed the span.
+   */
+  recordError(error: unknown): void;
+}
+
+/**
+ * Represents an interface for recording metrics and traces.
+ */
+export interface MetricsInterface {
+  /**
+   * Adds to a counter.
+   * @param name - The name of the counter.
+   * @param value - The amount to add. Defaults to 1.
+   * @param attributes - The attributes of the measurement.
+   */
+  increment(name: string, value?: number, attributes?: MetricAttributes): void;
+
+  /**
+   * Records a value of a histogram, e.g. a duration in milliseconds.
+   * @param name - The name of the histogram.
+   * @param value - The recorded value.
+   * @param attributes - The attributes of the measurement.
+   */
+  record(name: string, value: number, attributes?: MetricAttributes): void;
+
+  /**
+   * Runs the function in a span, which is ended when the function settles.
+   * Spans started while the function runs are its children.
+   * @param name - The name of the span.
+   * @param attributes - The attributes of the span.
+   * @param fn - The traced function.
+   * @returns A promise that resolves to the result of the function.
+   */
+  trace<T>(
+    name: string,
+    attributes: MetricAttributes,
+    fn: (span: SpanInterface) => Promise<T>
+  ): Promise<T>;
+}
@@ -0,0 +1,43 @@
+import {
+  MetricAttributes,
+  MetricsInterface,
+  SpanInterface,
+} from "./MetricsInterface";
+
+/**
+ * The span of the no-op metrics, which ignores everything.
+ */
+const NOOP_SPAN: SpanInterface = {
+  setAttribute: () => {},
+  recordError: () => {},
+};
+
+/**
+ * Represents metrics which record nothing, used when no metrics are configured.
+ */
+export class NoopMetrics implements MetricsInterface {
+  /**
+   * Ignores the counter.
+   */
+  public increment(): void {}
+
+  /**
+   * Ignores the histogram value.
+   */
+  public record(): void {}
+
+  /**
+   * Runs the function without a span.
+   * @param name - The name of the span.
+   * @param attributes - The attributes of the span.
+   * @param fn - The traced function.
+   * @returns A promise that resolves to the result of the function.
+   */
+  public trace<T>(
+    name: string,
+    attributes: MetricAttributes,
+    fn: (span: SpanInterface) => Promise<T>
+  ): Promise<T> {
+    return fn(NOOP_SPAN);
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  MetricAttributes,
+  MetricsInterface,
+  SpanInterface,
+} from "./MetricsInterface";
+
+/**
+ * Represents the part of the OpenTelemetry `Meter` the adapter uses,
+ * so the adapter works with the `@opentelemetry/api` version of the application.
+ */
+export type OpenTelemetryMeter = {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: MetricAttributes): void };
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: MetricAttributes): void };
+};
+
+/**
+ * Represents the part of the OpenTelemetry `Span` the adapter uses.
+ */
+export type OpenTelemetrySpan = {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+};
+
+/**
+ * Represents the part of the OpenTelemetry `Tracer` the adapter uses.
+ */
+export type OpenTelemetryTracer = {
+  startActiveSpan<F extends (span: OpenTelemetrySpan) => unknown>(
+    name: string,
+    options: { attributes?: MetricAttributes },
+    fn: F
+  ): ReturnType<F>;
+};
+
+/**
+ * Configuration options for OpenTelemetryMetrics.
+ */
+export type OpenTelemetryMetricsConfig = {
+  /**
+   * The meter, e.g. `metrics.getMeter("nvsbot")` of `@opentelemetry/api`.
+   */
+  meter: OpenTelemetryMeter;
+  /**
+   * The tracer, e.g. `trace.getTracer("nvsbot")` of `@opentelemetry/api`.
+   */
+  tracer: OpenTelemetryTracer;
+};
+
+/**
+ * The value of `SpanStatusCode.ERROR` in OpenTelemetry.
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Represents an adapter which records the metrics and spans with OpenTelemetry,
+ * exported by the OpenTelemetry SDK of the application, e.g. to a local collector over OTLP.
+ */
+export class OpenTelemetryMetrics implements MetricsInterface {
+  private meter: OpenTelemetryMeter;
+  private tracer: OpenTelemetryTracer;
+  private counters: Map<
+    string,
+    ReturnType<OpenTelemetryMeter["createCounter"]>
+  > = new Map();
+  private histograms: Map<
+    string,
+    ReturnType<OpenTelemetryMeter["createHistogram"]>
+  > = new Map();
+
+  /**
+   * Creates a new instance of OpenTelemetryMetrics.
+   * @param {OpenTelemetryMetricsConfig} config - The configuration options for the adapter.
+   */
+  constructor({ meter, tracer }: OpenTelemetryMetricsConfig) {
+    this.meter = meter;
+    this.tracer = tracer;
+    return this;
+  }
+
+  /**
+   * Adds to an OpenTelemetry counter, created on first use.
+   * @param name - The name of the counter.
+   * @param value - The amount to add. Defaults to 1.
+   * @param attributes - The attributes of the measurement.
+   */
+  public increment(
+    name: string,
+    value: number = 1,
+    attributes?: MetricAttributes
+  ): void {
+    let counter = this.counters.get(name);
+    if (!counter) {
+      counter = this.meter.createCounter(name);
+      this.counters.set(name, counter);
+    }
+    counter.add(value, attributes);
+  }
+
+  /**
+   * Records a value of an OpenTelemetry histogram, created on first use.
+   * @param name - The name of the histogram.
+   * @param value - The recorded value.
+   * @param attributes - The attributes of the measurement.
+   */
+  public record(
+    name: string,
+    value: number,
+    attributes?: MetricAttributes
+  ): void {
+    let histogram = this.histograms.get(name);
+    if (!histogram) {
+      histogram = this.meter.createHistogram(name);
+      this.histograms.set(name, histogram);
+    }
+    histogram.record(value, attributes);
+  }
+
+  /**
+   * Runs the function in an active OpenTelemetry span, so the spans it starts are its children.
+   * @param name - The name of the span.
+   * @param attributes - The attributes of the span.
+   * @param fn - The traced function.
+   * @returns A promise that resolves to the result of the function.
+   */
+  public trace<T>(
+    name: string,
+    attributes: MetricAttributes,
+    fn: (span: SpanInterface) => Promise<T>
+  ): Promise<T> {
+    return this.tracer.startActiveSpan(
+      name,
+      { attributes },
+      async (span: OpenTelemetrySpan) => {
+        const recordError = (error: unknown) => {
+          span.recordException(error instanceof Error ? error : String(error));
+          span.setStatus({
+            code: SPAN_STATUS_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        };
+        try {
+          return await fn({
+            setAttribute: (key, value) => span.setAttribute(key, value),
+            recordError,
+          });
+        } catch (err) {
+          recordError(err);
+          throw err;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { ConversationTurn, createTurn } from "../../managers/ConversationTurn";
+import { configureLogger } from "../../utils/logger";
+import { FailoverPromptService } from "./FailoverPromptService";
+import {
+  PromptOptions,
+  PromptServiceInterface,
+} from "./PromptServiceInterface";
+
+/**
+ * Creates a prompt service which streams and answers the text after the delay.
+ */
+const createService = (
+  answer: string,
+  delayMs = 0
+): PromptServiceInterface<ConversationTurn> & {
+  signals: (AbortSignal | undefined)[];
+} => {
+  const signals: (AbortSignal | undefined)[] = [];
+  return {
+    signals,
+    makePrompt: async (
+      username: string,
+      text: string,
+      turns: ConversationTurn[],
+      options: PromptOptions = {}
+    ) => {
+      signals.push(options.signal);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      options.onText?.(answer);
+      return [
+        ...turns,
+        createTurn("user", text),
+        createTurn("assistant", answer),
+      ];
+    },
+    getLastMessage: (turns) => turns[turns.length - 1]?.text || null,
+  };
+};
+
+beforeAll(() => configureLogger({ sinks: [] }));
+
+describe("FailoverPromptService", () => {
+  it("fails over on errors and empty completions", async () => {
+    const failing = createService("");
+    failing.makePrompt = jest.fn(async () => {
+      throw new Error("Unavailable");
+    });
+    const service = new FailoverPromptService({
+      providers: [
+        { name: "failing", service: failing, retries: 1, backoffMs: 1 },
+        { name: "empty", service: createService("") },
+        { name: "working", service: createService("Answer") },
+      ],
+    });
+
+    const turns = await service.makePrompt("user", "Question", []);
+
+    expect(failing.makePrompt).toHaveBeenCalledTimes(2);
+    expect(service.getLastMessage(turns)).toBe("Answer");
+  });
+
+  it("aborts a timed out attempt and ignores the text it streams later", async () => {
+    const slow = createService("Late answer", 50);
+    const onText = jest.fn();
+    const service = new FailoverPromptService({
+      providers: [
+        { name: "slow", service: slow, timeoutMs: 10 },
+        { name: "fast", service: createService("Answer") },
+      ],
+    });
+
+    const turns = await service.makePrompt("user", "Question", [], {
+      onText,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(service.getLastMessage(turns)).toBe("Answer");
+    expect(slow.signals[0]?.aborted).toBe(true);
+    expect(onText.mock.calls).toEqual([["Answer"]]);
+  });
+
+  it("stops without failing over when the caller aborts the prompt", async () => {
+    const aborted = createService("Answer");
+    const controller = new AbortController();
+    controller.abort();
+    const fallback = createService("Answer");
+    const service = new FailoverPromptService({
+      providers: [
+        { name: "aborted", service: aborted, retries: 1 },
+        { name: "fallback", service: fallback },
+      ],
+    });
+
+    await expect(
+      service.makePrompt("user", "Question", [], { signal: controller.signal })
+    ).rejects.toThrow("Prompt aborted");
+    expect(aborted.signals).toHaveLength(0);
+    expect(fallback.signals).toHaveLength(0);
+  });
+
+  it("rethrows the error of an attempt the caller aborted", async () => {
+    const controller = new AbortController();
+    const failing = createService("");
+    failing.makePrompt = jest.fn(async () => {
+      controller.abort();
+      throw new Error("Aborted request");
+    });
+    const fallback = createService("Answer");
+    const service = new FailoverPromptService({
+      providers: [
+        { name: "failing", service: failing, retries: 1, backoffMs: 1 },
+        { name: "fallback", service: fallback },
+      ],
+    });
+
+    await expect(
+      service.makePrompt("user", "Question", [], { signal: controller.signal })
+    ).rejects.toThrow("Aborted request");
+    expect(failing.makePrompt).toHaveBeenCalledTimes(1);
+    expect(fallback.signals).toHaveLength(0);
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  PromptOptions,
+  PromptServiceInterface,
+} from "./PromptServiceInterface";
+import { ConversationTurn } from "../../managers/ConversationTurn";
+import { FROM, TYPE, log } from "../../utils/logger";
+
+/**
+ * Represents a prompt service in the failover chain with its retry policy.
+ */
+export type FailoverProvider = {
+  /**
+   * The name of the provider used in logs, e.g. "openai:gpt-4".
+   */
+  name: string;
+  /**
+   * The prompt service of the provider.
+   */
+  service: PromptServiceInterface<ConversationTurn>;
+  /**
+   * The maximum time in milliseconds to wait for an answer. No limit by default.
+   */
+  timeoutMs?: number;
+  /**
+   * The number of retries before failing over to the next provider. Defaults to 0.
+   */
+  retries?: number;
+  /**
+   * The delay in milliseconds before the first retry, doubled on every next retry. Defaults to 1000.
+   */
+  backoffMs?: number;
+};
+
+/**
+ * Configuration object for the FailoverPromptService.
+ */
+export type FailoverPromptServiceConfig = {
+  /**
+   * The providers in the order they are tried.
+   */
+  providers: FailoverProvider[];
+};
+
+const DEFAULT_BACKOFF_MS = 1000;
+
+/**
+ * Composite prompt service which tries providers in order.
+ * Fails over to the next provider on errors, rate limits or empty completions.
+ */
+export class FailoverPromptService
+  implements PromptServiceInterface<ConversationTurn>
+{
+  private providers: FailoverProvider[];
+
+  /**
+   * Constructs a new instance of the FailoverPromptService.
+   *
+   * @param providers - The providers in the order they are tried.
+   * @throws {Error} Throws an error if no providers are given.
+   */
+  constructor({ providers }: FailoverPromptServiceConfig) {
+    if (!providers.length) {
+      throw new Error("At least one provider is required");
+    }
+    this.providers = providers;
+    return this;
+  }
+
+  /**
+   * Makes a prompt using the first provider which produces an answer.
+   *
+   * @param username - The username of the user.
+   * @param userInput - The user's input.
+   * @param turns - The conversation history.
+   * @param options - The options of the prompt, passed to every provider.
+   * @returns A promise that resolves to the updated conversation history.
+   * @throws {Error} Throws an error if all providers failed or the prompt was aborted by options.signal.
+   */
+  public async makePrompt(
+    username: string,
+    userInput: string,
+    turns: ConversationTurn[],
+    options: PromptOptions = {}
+  ): Promise<ConversationTurn[]> {
+    for (const provider of this.providers) {
+      const retries = provider.retries ?? 0;
+      const backoffMs = provider.backoffMs ?? DEFAULT_BACKOFF_MS;
+
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        // The caller gave up on the prompt, so neither retrying nor failing over helps
+        if (options.signal?.aborted) throw new Error("Prompt aborted");
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        options.signal?.addEventListener("abort", abort);
+        try {
+          // Every attempt works on a copy, so a failed one leaves no trace in the history
+          const newTurns = await this.withTimeout(
+            provider.service.makePrompt(
+              username,
+              userInput,
+              [...turns],
+              this.getAttemptOptions(options, controller.signal)
+            ),
+            provider.timeoutMs
+          );
+          if (!provider.service.getLastMessage(newTurns)) {
+            throw new Error("Empty completion");
+          }
+          log(FROM.FAILOVER, TYPE.SUCCESS, `Answer from ${provider.name}`);
+          return newTurns;
+        } catch (err) {
+          // A timed out attempt keeps running otherwise, calling tools and streaming its text
+          controller.abort();
+          if (options.signal?.aborted) throw err;
+          const isRateLimited = (err as { status?: number })?.status === 429;
+          log(
+            FROM.FAILOVER,
+            TYPE.ERROR,
+            `${provider.name} failed (attempt ${attempt + 1}):`,
+            err
+          );
+          // Retrying a rate limited provider is pointless, fail over at once
+          if (isRateLimited || attempt === retries) break;
+          await new Promise((resolve) =>
+            setTimeout(resolve, backoffMs * 2 ** attempt)
+          );
+        } finally {
+          options.signal?.removeEventListener("abort", abort);
+        }
+      }
+    }
+
+    throw new Error("All providers failed");
+  }
+
+  /**
+   * Gets the options of an attempt, which stops streaming its text once the attempt is aborted.
+   * @param options - The options of the prompt.
+   * @param signal - Aborts the attempt.
+   * @returns The options passed to the provider.
+   */
+  private getAttemptOptions(
+    options: PromptOptions,
+    signal: AbortSignal
+  ): PromptOptions {
+    const { onText } = options;
+    return {
+      ...options,
+      signal,
+      onText:
+        onText &&
+        ((text) => {
+          if (!signal.aborted) onText(text);
+        }),
+    };
+  }
+
+  /**
+   * Rejects the promise if it does not settle within the timeout.
+   * @param promise - The promise to wait for.
+   * @param timeoutMs - The timeout in milliseconds.
+   * @returns The result of the promise.
+   */
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs?: number
+  ): Promise<T> {
+    if (!timeoutMs) return promise;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Gets the last message content from the conversation history.
+   * @param turns The conversation history.
+   * @returns The content of the last message or null if no message found.
+   */
+  public getLastMessage(turns: ConversationTurn[]): string | null {
+    return this.providers[0].service.getLastMessage(turns);
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  FunctionCallingMode,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  StartChatParams,
+} from "@google/generative-ai";
+import { createTurn } from "../../managers/ConversationTurn";
+import { configureLogger } from "../../utils/logger";
+import { GeminiPromptService } from "./GeminiPromptService";
+import { ToolRegistry } from "./ToolRegistry";
+
+beforeAll(() => configureLogger({ sinks: [] }));
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("GeminiPromptService", () => {
+  it("disables function calling on the last tool round, so the answer has text", async () => {
+    const chatParams: StartChatParams[] = [];
+    jest
+      .spyOn(GoogleGenerativeAI.prototype, "getGenerativeModel")
+      .mockImplementation(
+        () =>
+          ({
+            startChat: (params: StartChatParams = {}) => {
+              chatParams.push(params);
+              const canCall =
+                params.toolConfig?.functionCallingConfig.mode !==
+                FunctionCallingMode.NONE;
+              return {
+                getHistory: async () => [],
+                sendMessage: async () => ({
+                  response: {
+                    candidates: [
+                      {
+                        content: {
+                          role: "model",
+                          parts: [
+                            canCall
+                              ? { functionCall: { name: "lookup", args: {} } }
+                              : { text: "Done" },
+                          ],
+                        },
+                      },
+                    ],
+                  },
+                }),
+              };
+            },
+          } as unknown as GenerativeModel)
+      );
+    const handler = jest.fn(() => ({ found: false }));
+    const service = new GeminiPromptService({
+      apiKey: "key",
+      modelName: "gemini",
+      systemPromptFunc: () => "System",
+      tools: new ToolRegistry([
+        {
+          name: "lookup",
+          description: "Looks up",
+          parameters: { type: "object", properties: {} },
+          handler,
+        },
+      ]),
+      maxToolIterations: 2,
+    });
+
+    const turns = await service.makePrompt("user", "Question", []);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(chatParams).toHaveLength(2);
+    expect(service.getLastMessage(turns)).toBe("Done");
+  });
+
+  it("skips the turns without content, which Gemini rejects", () => {
+    const service = new GeminiPromptService({
+      apiKey: "key",
+      modelName: "gemini",
+      systemPromptFunc: () => "System",
+    });
+
+    expect(
+      service.toContents([
+        createTurn("user", "Question"),
+        createTurn("assistant", ""),
+        createTurn("user", ""),
+        createTurn("user", "Again"),
+      ])
+    ).toEqual([
+      { role: "user", parts: [{ text: "Question" }] },
+      { role: "user", parts: [{ text: "Again" }] },
+    ]);
+  });
+});
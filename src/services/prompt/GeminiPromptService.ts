@@ -1,6 +1,44 @@
-import { GoogleGenerativeAI, ChatSession } from "@google/generative-ai";
-import { PromptServiceInterface } from "./PromptServiceInterface";
+import {
+  GoogleGenerativeAI,
+  ChatSession,
+  Content,
+  EnhancedGenerateContentResponse,
+  FunctionCallingMode,
+  FunctionDeclarationSchema,
+  GenerationConfig,
+  Part,
+  ResponseSchema,
+  Tool,
+} from "@google/generative-ai";
+import {
+  AttachmentContent,
+  PromptOptions,
+  PromptServiceInterface,
+} from "./PromptServiceInterface";
 import { FROM, TYPE, log } from "../../utils/logger";
+import {
+  ConversationToolCall,
+  ConversationToolResult,
+  ConversationTurn,
+  TokenUsage,
+  createTurn,
+  trimTurns,
+} from "../../managers/ConversationTurn";
+import { estimateMessageTokens } from "../../utils/tokens";
+import {
+  describeAttachments,
+  getTurnImages,
+  loadImages,
+} from "../../utils/attachments";
+import { DEFAULT_MAX_TOOL_ITERATIONS, ToolRegistry } from "./ToolRegistry";
+import {
+  JSONSchema,
+  getJSONSchemaInstruction,
+  toGeminiSchema,
+} from "../../utils/jsonSchema";
+import { MetricsInterface } from "../metrics/MetricsInterface";
+import { NoopMetrics } from "../metrics/NoopMetrics";
+import { measure, recordTokenUsage } from "../../utils/metrics";
 
 /**
  * Configuration object for the GeminiPromptService.
@@ -23,26 +61,58 @@ export type GeminiPromptServiceConfig = {
    * @returns The generated system prompt.
    */
   systemPromptFunc: (username: string) => string;
-};
 
-/**
- * Represents a message in the Gemini chat format.
- */
-export interface GeminiMessage {
-  role: "user" | "model";
-  parts: string;
-}
+  /**
+   * The tools the model can call during the conversation.
+   */
+  tools?: ToolRegistry;
+
+  /**
+   * The maximum number of tool call rounds per prompt.
+   */
+  maxToolIterations?: number;
+
+  /**
+   * The JSON schema every response must match. Enables the JSON output mode.
+   */
+  responseSchema?: JSONSchema;
+
+  /**
+   * The maximum estimated number of prompt tokens. The oldest turns are dropped to fit.
+   */
+  maxPromptTokens?: number;
+
+  /**
+   * The maximum number of tokens in the answer.
+   */
+  maxCompletionTokens?: number;
+
+  /**
+   * The sampling temperature.
+   */
+  temperature?: number;
+  /**
+   * The metrics which measure every model call. Defaults to no metrics.
+   */
+  metrics?: MetricsInterface;
+};
 
 /**
  * Service for making prompts for Google Gemini chat completions.
  */
 export class GeminiPromptService
-  implements PromptServiceInterface<GeminiMessage>
+  implements PromptServiceInterface<ConversationTurn>
 {
   private genAI: GoogleGenerativeAI;
   private modelName: string;
   private systemPromptFunc: (username: string) => string;
-  private chatSessions: Map<string, ChatSession> = new Map();
+  private tools?: ToolRegistry;
+  private maxToolIterations: number;
+  private responseSchema?: JSONSchema;
+  private maxPromptTokens?: number;
+  private maxCompletionTokens?: number;
+  private temperature?: number;
+  private metrics: MetricsInterface;
 
   /**
    * Constructs a new instance of the GeminiPromptService.
@@ -50,15 +120,36 @@ export class GeminiPromptService
    * @param apiKey - The Google Generative AI API key.
    * @param modelName - The name of the model to use.
    * @param systemPromptFunc - The function to generate system prompts.
+   * @param tools - The tools the model can call.
+   * @param maxToolIterations - The maximum number of tool call rounds per prompt.
+   * @param responseSchema - The JSON schema every response must match.
+   * @param maxPromptTokens - The maximum estimated number of prompt tokens.
+   * @param maxCompletionTokens - The maximum number of tokens in the answer.
+   * @param temperature - The sampling temperature.
+   * @param metrics - The metrics which measure every model call.
    */
   constructor({
     apiKey,
     modelName,
     systemPromptFunc,
+    tools,
+    maxToolIterations,
+    responseSchema,
+    maxPromptTokens,
+    maxCompletionTokens,
+    temperature,
+    metrics,
   }: GeminiPromptServiceConfig) {
     this.genAI = new GoogleGenerativeAI(apiKey);
     this.modelName = modelName;
     this.systemPromptFunc = systemPromptFunc;
+    this.tools = tools;
+    this.maxToolIterations = maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+    this.responseSchema = responseSchema;
+    this.maxPromptTokens = maxPromptTokens;
+    this.maxCompletionTokens = maxCompletionTokens;
+    this.temperature = temperature;
+    this.metrics = metrics || new NoopMetrics();
   }
 
   /**
@@ -66,78 +157,374 @@ export class GeminiPromptService
    *
    * @param username - The username of the user.
    * @param userInput - The user's input.
-   * @param messages - The array of chat messages.
-   * @returns A promise that resolves to an array of chat messages.
+   * @param turns - The conversation history.
+   * @param options - The options of the prompt, e.g. the streaming callback.
+   * @returns A promise that resolves to the updated conversation history.
+   * @throws Rethrows the provider error, so the caller can fail over or report it.
    */
   public async makePrompt(
     username: string,
     userInput: string,
-    messages: GeminiMessage[]
-  ): Promise<GeminiMessage[]> {
-    log(FROM.GEMINI, TYPE.INFO, username, userInput);
+    turns: ConversationTurn[],
+    options: PromptOptions = {}
+  ): Promise<ConversationTurn[]> {
+    log(FROM.GEMINI, TYPE.DEBUG, "Prompt:", { username, text: userInput });
     try {
-      const systemInstruction = this.systemPromptFunc(username);
+      const systemPrompt = this.getSystemPrompt(
+        username,
+        options.systemPrompt,
+        options.plainText
+      );
+      const history = trimTurns(turns, {
+        maxTokens: this.getHistoryTokenBudget(systemPrompt, userInput),
+      });
+      // Gemini has no system role in the chat history, so the kept system turns extend the instruction
+      const systemInstruction = [
+        systemPrompt,
+        ...history
+          .filter(({ role }) => role === "system")
+          .map(({ text }) => text),
+      ].join("\n\n");
       const model = this.genAI.getGenerativeModel({
         model: this.modelName,
         systemInstruction,
+        tools: options.plainText ? undefined : this.getTools(),
+        generationConfig: this.getGenerationConfig(options.plainText),
       });
-      const history = messages.map((msg) => ({
-        role: msg.role,
-        parts: [{ text: msg.parts }],
-      }));
-      const chat = model.startChat({
-        history,
+      const userTurn = createTurn("user", userInput, {
+        author: username,
+        ...(options.attachments?.length && {
+          attachments: options.attachments,
+        }),
       });
-      this.chatSessions.set(username, chat);
-      messages.push({
-        role: "user",
-        parts: userInput,
+      // Only the images of the turns which fit into the prompt are downloaded
+      const images = await loadImages(
+        [...history, userTurn],
+        options.loadAttachment
+      );
+      let chat = model.startChat({
+        history: this.toContents(history, options.attributeAuthors, images),
       });
+      turns.push(userTurn);
 
-      const result = await chat.sendMessage(userInput);
-      const response = result.response;
-      const responseText = response.text();
+      const [userContent] = this.toContents(
+        [userTurn],
+        options.attributeAuthors,
+        images
+      );
+      if (!userContent) throw new Error("Prompt has no content");
+      let request: string | Part[] = userContent.parts;
+      for (
+        let iteration = 0;
+        iteration <= this.maxToolIterations;
+        iteration++
+      ) {
+        if (this.tools && iteration === this.maxToolIterations) {
+          // The last round must answer with text, as the results of new tool calls would not be sent
+          chat = model.startChat({
+            history: await chat.getHistory(),
+            toolConfig: {
+              functionCallingConfig: { mode: FunctionCallingMode.NONE },
+            },
+          });
+        }
+        const attributes = {
+          provider: "gemini",
+          model: this.modelName,
+          streaming: !!options.onText,
+        };
+        const response = await measure(
+          this.metrics,
+          "prompt.call",
+          attributes,
+          () =>
+            options.onText
+              ? this.streamMessage(
+                  chat,
+                  request,
+                  options.onText,
+                  options.signal
+                )
+              : chat
+                  .sendMessage(request, { signal: options.signal })
+                  .then(({ response }) => response)
+        );
+        const content = response.candidates?.[0]?.content;
+        const [turn] = this.toTurns(content ? [content] : []);
+        if (!turn) break;
+        if (response.usageMetadata) {
+          const usage: TokenUsage = {
+            promptTokens: response.usageMetadata.promptTokenCount || 0,
+            completionTokens: response.usageMetadata.candidatesTokenCount || 0,
+          };
+          turn.metadata = { ...turn.metadata, usage };
+          recordTokenUsage(this.metrics, usage, attributes);
+          options.onUsage?.(usage, this.modelName);
+        }
 
-      messages.push({
-        role: "model",
-        parts: responseText,
-      });
+        turns.push(turn);
+        log(FROM.GEMINI, TYPE.DEBUG, "Answer:", {
+          text: turn.text,
+          toolCalls: turn.toolCalls,
+          usage: turn.metadata?.usage,
+        });
+
+        if (!this.tools || !turn.toolCalls?.length) break;
+        if (iteration === this.maxToolIterations) {
+          log(FROM.GEMINI, TYPE.ERROR, "Tool iteration limit reached");
+          break;
+        }
+        if (options.signal?.aborted) throw new Error("Prompt aborted");
+
+        const toolResults: ConversationToolResult[] = [];
+        for (const toolCall of turn.toolCalls) {
+          toolResults.push({
+            id: toolCall.id,
+            name: toolCall.name,
+            result: await this.tools.execute(
+              toolCall.name,
+              toolCall.arguments,
+              { username }
+            ),
+          });
+        }
+        turns.push(createTurn("tool", "", { toolResults }));
+        request = toolResults.map(({ name, result }) => ({
+          functionResponse: { name, response: result },
+        }));
+      }
 
-      log(FROM.GEMINI, TYPE.INFO, responseText);
-      return messages;
+      return turns;
     } catch (err) {
       log(FROM.GEMINI, TYPE.ERROR, err);
-      return messages;
+      throw err;
     }
   }
 
   /**
-   * Clears the chat session for a specific user.
-   *
-   * @param username - The username whose chat session should be cleared.
+   * Sends a message in the streaming mode.
+   * @param chat - The chat session.
+   * @param request - The message to send.
+   * @param onText - Called with the text received so far.
+   * @param signal - Cancels the request.
+   * @returns The aggregated response.
+   */
+  private async streamMessage(
+    chat: ChatSession,
+    request: string | Part[],
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<EnhancedGenerateContentResponse> {
+    const result = await chat.sendMessageStream(request, { signal });
+    let text = "";
+    for await (const chunk of result.stream) {
+      const chunkText = chunk.text();
+      if (!chunkText) continue;
+      text += chunkText;
+      onText(text);
+    }
+    return result.response;
+  }
+
+  /**
+   * Converts conversation turns to Gemini chat contents.
+   * System turns are skipped, as Gemini only accepts them as the system instruction.
+   * Turns without any content, e.g. an empty answer, are skipped, as Gemini rejects empty parts.
+   * @param turns - The conversation turns.
+   * @param attributeAuthors - Prefixes user turns with their author, as Gemini has no name field.
+   * @param images - The downloaded images of the turns by their Telegram file ID.
+   * @returns The Gemini chat contents.
+   */
+  public toContents(
+    turns: ConversationTurn[],
+    attributeAuthors: boolean = false,
+    images: Map<string, AttachmentContent> = new Map()
+  ): Content[] {
+    return turns
+      .filter(({ role }) => role !== "system")
+      .map((turn) => {
+        const parts: Part[] = [];
+        const turnImages = getTurnImages(turn, images);
+        const text =
+          turn.text || (turnImages.length ? "" : describeAttachments(turn));
+        if (text) {
+          parts.push({
+            text:
+              attributeAuthors && turn.role === "user" && turn.author
+                ? this.withSpeaker(turn.author, text)
+                : text,
+          });
+        }
+        turnImages.forEach(({ mimeType, data }) =>
+          parts.push({
+            inlineData: { mimeType, data: data.toString("base64") },
+          })
+        );
+        turn.toolCalls?.forEach(({ name, arguments: args }) =>
+          parts.push({ functionCall: { name, args } })
+        );
+        turn.toolResults?.forEach(({ name, result }) =>
+          parts.push({ functionResponse: { name, response: result } })
+        );
+        const role =
+          turn.role === "assistant"
+            ? "model"
+            : turn.role === "tool"
+            ? "function"
+            : "user";
+        return { role, parts };
+      })
+      .filter(({ parts }) => parts.length);
+  }
+
+  /**
+   * Prefixes the text with the name of its speaker.
+   * @param speaker - The name of the speaker.
+   * @param text - The text.
+   * @returns The prefixed text.
+   */
+  private withSpeaker(speaker: string, text: string): string {
+    return `[${speaker}]: ${text}`;
+  }
+
+  /**
+   * Converts Gemini chat contents to conversation turns.
+   * Gemini has no tool call IDs, so they are generated and matched to results by order.
+   * @param contents - The Gemini chat contents.
+   * @returns The conversation turns.
+   */
+  public toTurns(contents: Content[]): ConversationTurn[] {
+    let pendingToolCalls: ConversationToolCall[] = [];
+
+    return contents.map((content) => {
+      const text = content.parts.map((part) => part.text || "").join("");
+
+      if (content.role === "model") {
+        const toolCalls = content.parts
+          .filter((part) => !!part.functionCall)
+          .map(({ functionCall }, index) => ({
+            id: `${functionCall!.name}-${Date.now()}-${index}`,
+            name: functionCall!.name,
+            arguments: functionCall!.args as Record<string, unknown>,
+          }));
+        pendingToolCalls = [...toolCalls];
+        return createTurn("assistant", text, {
+          metadata: { provider: "gemini", model: this.modelName },
+          ...(toolCalls.length && { toolCalls }),
+        });
+      }
+
+      if (content.role === "function") {
+        const toolResults = content.parts
+          .filter((part) => !!part.functionResponse)
+          .map(({ functionResponse }) => {
+            const index = pendingToolCalls.findIndex(
+              ({ name }) => name === functionResponse!.name
+            );
+            const [toolCall] =
+              index >= 0 ? pendingToolCalls.splice(index, 1) : [];
+            return {
+              id: toolCall?.id || `${functionResponse!.name}-${Date.now()}`,
+              name: functionResponse!.name,
+              result: functionResponse!.response as Record<string, unknown>,
+            };
+          });
+        return createTurn("tool", "", { toolResults });
+      }
+
+      return createTurn("user", text);
+    });
+  }
+
+  /**
+   * Generates the system prompt, including the JSON output instruction if required.
+   * @param username - The username of the user.
+   * @param systemPrompt - The system prompt overriding the one of the service.
+   * @param plainText - Skips the JSON output instruction.
+   * @returns The system prompt.
+   */
+  private getSystemPrompt(
+    username: string,
+    systemPrompt: string = this.systemPromptFunc(username),
+    plainText: boolean = false
+  ): string {
+    return this.responseSchema && !plainText
+      ? `${systemPrompt}\n\n${getJSONSchemaInstruction(this.responseSchema)}`
+      : systemPrompt;
+  }
+
+  /**
+   * Creates the generation config, enabling the JSON output mode if required.
+   * Gemini does not support JSON output together with function calling,
+   * so with tools the schema is enforced by the system prompt only.
+   * @param plainText - Disables the JSON output mode.
+   * @returns The generation config.
+   */
+  private getGenerationConfig(plainText: boolean = false): GenerationConfig {
+    const isJSONOutput =
+      !!this.responseSchema && !this.getTools() && !plainText;
+    return {
+      maxOutputTokens: this.maxCompletionTokens,
+      temperature: this.temperature,
+      ...(isJSONOutput && {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(
+          this.responseSchema!
+        ) as unknown as ResponseSchema,
+      }),
+    };
+  }
+
+  /**
+   * Returns the number of tokens left for the history after the system prompt and the user input.
+   * @param systemPrompt - The system prompt, which is always kept.
+   * @param userInput - The user's input.
+   * @returns The token budget of the history, system turns included, or undefined if not limited.
    */
-  public clearChatSession(username: string): void {
-    this.chatSessions.delete(username);
+  private getHistoryTokenBudget(
+    systemPrompt: string,
+    userInput: string
+  ): number | undefined {
+    if (!this.maxPromptTokens) return;
+    return (
+      this.maxPromptTokens -
+      estimateMessageTokens(systemPrompt) -
+      estimateMessageTokens(userInput)
+    );
   }
 
   /**
-   * Clears all chat sessions.
+   * Converts the registered tools to the Gemini function declarations format.
+   * @returns The Gemini tools or undefined if no tools are registered.
    */
-  public clearAllChatSessions(): void {
-    this.chatSessions.clear();
+  private getTools(): Tool[] | undefined {
+    if (!this.tools || this.tools.isEmpty()) return;
+    return [
+      {
+        functionDeclarations: this.tools
+          .list()
+          .map(({ name, description, parameters }) => ({
+            name,
+            description,
+            parameters: toGeminiSchema(
+              parameters
+            ) as unknown as FunctionDeclarationSchema,
+          })),
+      },
+    ];
   }
 
   /**
-   * Gets the last message content from the Gemini message array.
-   * @param messages The array of Gemini messages.
+   * Gets the last message content from the conversation history.
+   * @param turns The conversation history.
    * @returns The content of the last message or null if no message found.
    */
-  public getLastMessage(messages: GeminiMessage[]): string | null {
-    if (!messages.length) return null;
+  public getLastMessage(turns: ConversationTurn[]): string | null {
+    if (!turns.length) return null;
 
-    const lastMessage = messages[messages.length - 1];
-    if (lastMessage.role === "model") {
-      return lastMessage.parts;
+    const lastTurn = turns[turns.length - 1];
+    if (lastTurn.role === "assistant" && lastTurn.text) {
+      return lastTurn.text;
     }
 
     return null;
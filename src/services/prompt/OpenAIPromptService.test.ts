@@ -0,0 +1,64 @@
+import OpenAI from "openai";
+import { createTurn } from "../../managers/ConversationTurn";
+import { configureLogger } from "../../utils/logger";
+import {
+  OpenAIPromptService,
+  OpenAIPromptServiceConfig,
+} from "./OpenAIPromptService";
+
+/**
+ * Creates a service with a fake OpenAI client which answers with the responses in order.
+ */
+const createService = (
+  responses: unknown[],
+  config: Partial<OpenAIPromptServiceConfig> = {}
+) => {
+  const create = jest.fn();
+  responses.forEach((response) => create.mockResolvedValueOnce(response));
+  const service = new OpenAIPromptService({
+    openai: { chat: { completions: { create } } } as unknown as OpenAI,
+    model: "gpt",
+    systemPromptFunc: () => "System",
+    ...config,
+  });
+  return { service, create };
+};
+
+beforeAll(() => configureLogger({ sinks: [] }));
+
+describe("OpenAIPromptService", () => {
+  it("treats a completion without choices as an empty answer", async () => {
+    const { service } = createService([{ choices: [] }]);
+
+    const turns = await service.makePrompt("user", "Question", []);
+
+    expect(turns.map(({ role }) => role)).toEqual(["user", "assistant"]);
+    expect(service.getLastMessage(turns)).toBeFalsy();
+  });
+
+  it("downloads only the images of the turns which fit into the prompt", async () => {
+    const { service } = createService(
+      [{ choices: [{ message: { role: "assistant", content: "Answer" } }] }],
+      { maxPromptTokens: 100 }
+    );
+    const loadAttachment = jest.fn(async () => ({
+      mimeType: "image/jpeg",
+      data: Buffer.from("image"),
+    }));
+    const history = [
+      createTurn("user", "Old question ".repeat(100), {
+        attachments: [{ type: "image", fileId: "old" }],
+      }),
+      createTurn("assistant", "Old answer"),
+    ];
+
+    await service.makePrompt("user", "Question", history, {
+      attachments: [{ type: "image", fileId: "new" }],
+      loadAttachment,
+    });
+
+    expect(loadAttachment.mock.calls).toEqual([
+      [{ type: "image", fileId: "new" }],
+    ]);
+  });
+});
@@ -1,7 +1,32 @@
 import OpenAI from "openai";
-import { PromptServiceInterface } from "./PromptServiceInterface";
+import {
+  AttachmentContent,
+  PromptOptions,
+  PromptServiceInterface,
+} from "./PromptServiceInterface";
 import { FROM, TYPE, log } from "../../utils/logger";
-import { ChatCompletionCreateParams } from "openai/resources";
+import {
+  ChatCompletionCreateParams,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources";
+import {
+  ConversationToolResult,
+  ConversationTurn,
+  TokenUsage,
+  createTurn,
+  trimTurns,
+} from "../../managers/ConversationTurn";
+import { estimateMessageTokens, estimateTokens } from "../../utils/tokens";
+import {
+  describeAttachments,
+  getTurnImages,
+  loadImages,
+} from "../../utils/attachments";
+import { DEFAULT_MAX_TOOL_ITERATIONS, ToolRegistry } from "./ToolRegistry";
+import { JSONSchema, getJSONSchemaInstruction } from "../../utils/jsonSchema";
+import { MetricsInterface } from "../metrics/MetricsInterface";
+import { NoopMetrics } from "../metrics/NoopMetrics";
+import { measure, recordTokenUsage } from "../../utils/metrics";
 
 /**
  * Configuration object for the OpenAIPromptService.
@@ -24,29 +49,98 @@ export type OpenAIPromptServiceConfig = {
    * @returns The generated system prompt.
    */
   systemPromptFunc: (username: string) => string;
+
+  /**
+   * The tools the model can call during the conversation.
+   */
+  tools?: ToolRegistry;
+
+  /**
+   * The maximum number of tool call rounds per prompt.
+   */
+  maxToolIterations?: number;
+
+  /**
+   * The JSON schema every response must match. Enables the JSON output mode.
+   */
+  responseSchema?: JSONSchema;
+
+  /**
+   * The maximum estimated number of prompt tokens. The oldest turns are dropped to fit.
+   */
+  maxPromptTokens?: number;
+
+  /**
+   * The maximum number of tokens in the answer. Defaults to 200.
+   */
+  maxCompletionTokens?: number;
+
+  /**
+   * The sampling temperature. Defaults to 0.
+   */
+  temperature?: number;
+  /**
+   * The metrics which measure every model call. Defaults to no metrics.
+   */
+  metrics?: MetricsInterface;
 };
 
+const DEFAULT_MAX_COMPLETION_TOKENS = 200;
+const DEFAULT_TEMPERATURE = 0;
+
 /**
  * Service for making prompts for OpenAI chat completions.
  */
 export class OpenAIPromptService
-  implements
-    PromptServiceInterface<OpenAI.Chat.Completions.ChatCompletionMessageParam>
+  implements PromptServiceInterface<ConversationTurn>
 {
   private openai: OpenAI;
   private model: ChatCompletionCreateParams["model"];
   private systemPromptFunc: (username: string) => string;
+  private tools?: ToolRegistry;
+  private maxToolIterations: number;
+  private responseSchema?: JSONSchema;
+  private maxPromptTokens?: number;
+  private maxCompletionTokens?: number;
+  private temperature?: number;
+  private metrics: MetricsInterface;
 
   /**
    * Constructs a new instance of the OpenAIPromptService.
    *
    * @param openai - The OpenAI instance.
    * @param systemPromptFunc - The function to generate system prompts.
+   * @param tools - The tools the model can call.
+   * @param maxToolIterations - The maximum number of tool call rounds per prompt.
+   * @param responseSchema - The JSON schema every response must match.
+   * @param maxPromptTokens - The maximum estimated number of prompt tokens.
+   * @param maxCompletionTokens - The maximum number of tokens in the answer.
+   * @param temperature - The sampling temperature.
+   * @param metrics - The metrics which measure every model call.
    */
-  constructor({ openai, model, systemPromptFunc }: OpenAIPromptServiceConfig) {
+  constructor({
+    openai,
+    model,
+    systemPromptFunc,
+    tools,
+    maxToolIterations,
+    responseSchema,
+    maxPromptTokens,
+    maxCompletionTokens,
+    temperature,
+    metrics,
+  }: OpenAIPromptServiceConfig) {
     this.openai = openai;
     this.model = model;
     this.systemPromptFunc = systemPromptFunc;
+    this.tools = tools;
+    this.maxToolIterations = maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+    this.responseSchema = responseSchema;
+    this.maxPromptTokens = maxPromptTokens;
+    this.maxCompletionTokens =
+      maxCompletionTokens ?? DEFAULT_MAX_COMPLETION_TOKENS;
+    this.temperature = temperature ?? DEFAULT_TEMPERATURE;
+    this.metrics = metrics || new NoopMetrics();
     return this;
   }
 
@@ -55,58 +149,428 @@ export class OpenAIPromptService
    *
    * @param username - The username of the user.
    * @param userInput - The user's input.
-   * @param messages - The array of chat messages.
-   * @returns A promise that resolves to an array of chat messages.
+   * @param turns - The conversation history.
+   * @param options - The options of the prompt, e.g. the streaming callback.
+   * @returns A promise that resolves to the updated conversation history.
+   * @throws Rethrows the provider error, so the caller can fail over or report it.
    */
   public async makePrompt(
     username: string,
     userInput: string,
-    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
-  ): Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]> {
-    log(FROM.OPEN_AI, TYPE.INFO, username, userInput);
-    if (!messages.length) {
-      messages.push({
-        role: "system",
-        content: this.systemPromptFunc(username),
+    turns: ConversationTurn[],
+    options: PromptOptions = {}
+  ): Promise<ConversationTurn[]> {
+    log(FROM.OPEN_AI, TYPE.DEBUG, "Prompt:", { username, text: userInput });
+    const systemPrompt = this.getSystemPrompt(
+      username,
+      options.systemPrompt,
+      options.plainText
+    );
+    turns.push(
+      createTurn("user", userInput, {
+        author: username,
+        ...(options.attachments?.length && {
+          attachments: options.attachments,
+        }),
+      })
+    );
+    try {
+      const maxTokens = this.getHistoryTokenBudget(systemPrompt);
+      // Only the images of the turns which fit into the prompt are downloaded
+      const images = await loadImages(
+        trimTurns(turns, { maxTokens }),
+        options.loadAttachment
+      );
+      const tools = options.plainText ? undefined : this.getTools();
+      // The last round disables tools so the model has to answer with text
+      for (
+        let iteration = 0;
+        iteration <= this.maxToolIterations;
+        iteration++
+      ) {
+        const params: ChatCompletionCreateParamsNonStreaming = {
+          model: this.model,
+          messages: this.toMessages(
+            trimTurns(turns, { maxTokens }),
+            systemPrompt,
+            images
+          ),
+          max_tokens: this.maxCompletionTokens,
+          temperature: this.temperature,
+          ...(this.responseSchema &&
+            !options.plainText && {
+              response_format: { type: "json_object" },
+            }),
+          ...(tools && {
+            tools,
+            tool_choice: iteration < this.maxToolIterations ? "auto" : "none",
+          }),
+        };
+        const attributes = {
+          provider: "openai",
+          model: this.model,
+          streaming: !!options.onText,
+        };
+        const { message, usage } = await measure(
+          this.metrics,
+          "prompt.call",
+          attributes,
+          () => this.complete(params, options.onText, options.signal)
+        );
+        recordTokenUsage(this.metrics, usage, attributes);
+        if (usage) options.onUsage?.(usage, this.model);
+        const [turn] = this.toTurns([message]);
+        if (usage) turn.metadata = { ...turn.metadata, usage };
+        turns.push(turn);
+        log(FROM.OPEN_AI, TYPE.DEBUG, "Answer:", {
+          text: message?.content,
+          usage,
+        });
+
+        if (!this.tools || !turn.toolCalls?.length) break;
+        if (options.signal?.aborted) throw new Error("Prompt aborted");
+
+        const toolResults: ConversationToolResult[] = [];
+        for (const toolCall of turn.toolCalls) {
+          toolResults.push({
+            id: toolCall.id,
+            name: toolCall.name,
+            result: await this.tools.execute(
+              toolCall.name,
+              toolCall.arguments,
+              { username }
+            ),
+          });
+        }
+        turns.push(createTurn("tool", "", { toolResults }));
+      }
+      return turns;
+    } catch (err) {
+      log(FROM.OPEN_AI, TYPE.ERROR, err);
+      throw err;
+    }
+  }
+
+  /**
+   * Makes a chat completion, streamed if onText is set, and reads its token usage.
+   * Streamed completions do not report usage in this SDK version, so it is estimated for them.
+   * @param params - The chat completion parameters.
+   * @param onText - Enables the streaming mode. Called with the text received so far.
+   * @param signal - Cancels the request.
+   * @returns The assistant message and the token usage.
+   */
+  private async complete(
+    params: ChatCompletionCreateParamsNonStreaming,
+    onText?: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<{
+    message: OpenAI.Chat.Completions.ChatCompletionMessage;
+    usage?: TokenUsage;
+  }> {
+    if (onText) {
+      const message = await this.streamCompletion(params, onText, signal);
+      const promptTokens = params.messages.reduce(
+        (sum, { content }) =>
+          sum +
+          estimateMessageTokens(
+            typeof content === "string"
+              ? content
+              : content
+                  ?.map((part) => (part.type === "text" ? part.text : ""))
+                  .join("") || ""
+          ),
+        0
+      );
+      return {
+        message,
+        usage: {
+          promptTokens,
+          completionTokens: estimateTokens(
+            (message.content || "") + JSON.stringify(message.tool_calls || [])
+          ),
+          estimated: true,
+        },
+      };
+    }
+
+    const response = await this.openai.chat.completions.create(params, {
+      signal,
+    });
+    const message = response?.choices?.[0]?.message;
+    if (!message) {
+      log(FROM.OPEN_AI, TYPE.WARN, "Completion without choices");
+    }
+    return {
+      // An empty answer is left to the caller, e.g. FailoverPromptService fails over
+      message: message || { role: "assistant", content: null },
+      usage: response?.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+      },
+    };
+  }
+
+  /**
+   * Makes a streaming chat completion and assembles the streamed chunks into a message.
+   * @param params - The chat completion parameters.
+   * @param onText - Called with the text received so far.
+   * @param signal - Cancels the request.
+   * @returns The assembled assistant message.
+   */
+  private async streamCompletion(
+    params: ChatCompletionCreateParamsNonStreaming,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<OpenAI.Chat.Completions.ChatCompletionMessage> {
+    const stream = await this.openai.chat.completions.create(
+      { ...params, stream: true },
+      { signal }
+    );
+    let content = "";
+    const toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] =
+      [];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        content += delta.content;
+        onText(content);
+      }
+      // Tool calls arrive in fragments addressed by index
+      delta?.tool_calls?.forEach(({ index, id, function: fn }) => {
+        const toolCall = (toolCalls[index] ||= {
+          id: "",
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        if (id) toolCall.id = id;
+        if (fn?.name) toolCall.function.name += fn.name;
+        if (fn?.arguments) toolCall.function.arguments += fn.arguments;
       });
     }
-    messages.push({
-      role: "user",
-      content: userInput,
-      name: username,
+
+    return {
+      role: "assistant",
+      content: content || null,
+      ...(toolCalls.length && { tool_calls: toolCalls }),
+    };
+  }
+
+  /**
+   * Converts conversation turns to OpenAI chat messages.
+   * @param turns - The conversation turns.
+   * @param systemPrompt - The system prompt to start the messages with.
+   * @param images - The downloaded images of the turns by their Telegram file ID.
+   * @returns The OpenAI chat messages.
+   */
+  public toMessages(
+    turns: ConversationTurn[],
+    systemPrompt?: string,
+    images: Map<string, AttachmentContent> = new Map()
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] =
+      systemPrompt ? [{ role: "system", content: systemPrompt }] : [];
+
+    turns.forEach((turn) => {
+      switch (turn.role) {
+        case "system":
+          messages.push({ role: "system", content: turn.text });
+          break;
+        case "user":
+          messages.push({
+            role: "user",
+            content: this.toUserContent(turn, getTurnImages(turn, images)),
+            ...(turn.author && { name: turn.author }),
+          });
+          break;
+        case "assistant":
+          messages.push({
+            role: "assistant",
+            content: turn.text || null,
+            ...(turn.toolCalls?.length && {
+              tool_calls: turn.toolCalls.map((toolCall) => ({
+                id: toolCall.id,
+                type: "function",
+                function: {
+                  name: toolCall.name,
+                  arguments: JSON.stringify(toolCall.arguments),
+                },
+              })),
+            }),
+          });
+          break;
+        case "tool":
+          turn.toolResults?.forEach((toolResult) =>
+            messages.push({
+              role: "tool",
+              tool_call_id: toolResult.id,
+              content: JSON.stringify(toolResult.result),
+            })
+          );
+          break;
+      }
     });
+
+    return messages;
+  }
+
+  /**
+   * Converts the text and the images of a user turn to the OpenAI message content.
+   * @param turn - The user turn.
+   * @param images - The downloaded images of the turn.
+   * @returns The text, or the content parts if the turn has images.
+   */
+  private toUserContent(
+    turn: ConversationTurn,
+    images: AttachmentContent[]
+  ): string | OpenAI.Chat.Completions.ChatCompletionContentPart[] {
+    if (!images.length) return turn.text || describeAttachments(turn);
+    return [
+      ...(turn.text ? [{ type: "text" as const, text: turn.text }] : []),
+      ...images.map(({ mimeType, data }) => ({
+        type: "image_url" as const,
+        image_url: {
+          url: `data:${mimeType};base64,${data.toString("base64")}`,
+        },
+      })),
+    ];
+  }
+
+  /**
+   * Converts OpenAI chat messages to conversation turns.
+   * Consecutive tool messages are merged into a single tool turn.
+   * @param messages - The OpenAI chat messages.
+   * @returns The conversation turns.
+   */
+  public toTurns(
+    messages: (
+      | OpenAI.Chat.Completions.ChatCompletionMessageParam
+      | OpenAI.Chat.Completions.ChatCompletionMessage
+    )[]
+  ): ConversationTurn[] {
+    const turns: ConversationTurn[] = [];
+    const toolNames: Map<string, string> = new Map();
+
+    messages.forEach((message) => {
+      const text =
+        typeof message.content === "string"
+          ? message.content
+          : message.content
+              ?.map((part) => (part.type === "text" ? part.text : ""))
+              .join("") || "";
+
+      if (message.role === "tool") {
+        const toolResult = {
+          id: message.tool_call_id,
+          name: toolNames.get(message.tool_call_id) || "",
+          result: this.parseJSON(text),
+        };
+        const lastTurn = turns[turns.length - 1];
+        if (lastTurn?.role === "tool") {
+          lastTurn.toolResults = [...(lastTurn.toolResults || []), toolResult];
+        } else {
+          turns.push(createTurn("tool", "", { toolResults: [toolResult] }));
+        }
+        return;
+      }
+
+      if (message.role === "assistant") {
+        const toolCalls = message.tool_calls?.map((toolCall) => {
+          toolNames.set(toolCall.id, toolCall.function.name);
+          return {
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: this.parseJSON(toolCall.function.arguments),
+          };
+        });
+        turns.push(
+          createTurn("assistant", text, {
+            metadata: { provider: "openai", model: this.model },
+            ...(toolCalls?.length && { toolCalls }),
+          })
+        );
+        return;
+      }
+
+      if (message.role === "user" || message.role === "system") {
+        turns.push(
+          createTurn(message.role, text, {
+            ...("name" in message && message.name && { author: message.name }),
+          })
+        );
+      }
+    });
+
+    return turns;
+  }
+
+  /**
+   * Parses a JSON object returned by or sent to the model.
+   * @param text - The JSON text.
+   * @returns The parsed object or the raw text wrapped in an object if it is not valid JSON.
+   */
+  private parseJSON(text: string): Record<string, unknown> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: messages,
-        max_tokens: 200,
-        temperature: 0,
-      });
-      messages.push(response?.choices?.[0].message);
-      log(FROM.OPEN_AI, TYPE.INFO, response?.choices?.[0]?.message.content);
-      return messages;
-    } catch (err) {
-      log(FROM.OPEN_AI, TYPE.ERROR, err);
-      return messages;
+      return JSON.parse(text || "{}");
+    } catch {
+      return { text };
     }
   }
 
   /**
-   * Gets the last message content from the OpenAI message array.
-   * @param messages The array of OpenAI messages.
+   * Generates the system prompt, including the JSON output instruction if required.
+   * @param username - The username of the user.
+   * @param systemPrompt - The system prompt overriding the one of the service.
+   * @param plainText - Skips the JSON output instruction.
+   * @returns The system prompt.
+   */
+  private getSystemPrompt(
+    username: string,
+    systemPrompt: string = this.systemPromptFunc(username),
+    plainText: boolean = false
+  ): string {
+    return this.responseSchema && !plainText
+      ? `${systemPrompt}\n\n${getJSONSchemaInstruction(this.responseSchema)}`
+      : systemPrompt;
+  }
+
+  /**
+   * Returns the number of tokens left for the history after the system prompt.
+   * @param systemPrompt - The system prompt, which is always kept.
+   * @returns The token budget of the history or undefined if not limited.
+   */
+  private getHistoryTokenBudget(systemPrompt: string): number | undefined {
+    if (!this.maxPromptTokens) return;
+    return this.maxPromptTokens - estimateMessageTokens(systemPrompt);
+  }
+
+  /**
+   * Converts the registered tools to the OpenAI tools format.
+   * @returns The OpenAI tools or undefined if no tools are registered.
+   */
+  private getTools(): OpenAI.Chat.Completions.ChatCompletionTool[] | undefined {
+    if (!this.tools || this.tools.isEmpty()) return;
+    return this.tools.list().map(({ name, description, parameters }) => ({
+      type: "function",
+      function: {
+        name,
+        description,
+        parameters: parameters as Record<string, unknown>,
+      },
+    }));
+  }
+
+  /**
+   * Gets the last message content from the conversation history.
+   * @param turns The conversation history.
    * @returns The content of the last message or null if no message found.
    */
-  public getLastMessage(
-    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
-  ): string | null {
-    if (!messages.length) return null;
-
-    const lastMessage = messages[messages.length - 1];
-    if (
-      lastMessage.role === "assistant" &&
-      typeof lastMessage.content === "string"
-    ) {
-      return lastMessage.content;
+  public getLastMessage(turns: ConversationTurn[]): string | null {
+    if (!turns.length) return null;
+
+    const lastTurn = turns[turns.length - 1];
+    if (lastTurn.role === "assistant" && lastTurn.text) {
+      return lastTurn.text;
     }
 
     return null;
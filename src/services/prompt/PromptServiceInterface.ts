@@ -1,3 +1,69 @@
+import {
+  ConversationAttachment,
+  TokenUsage,
+} from "../../managers/ConversationTurn";
+
+/**
+ * Represents the downloaded content of an attachment.
+ */
+export type AttachmentContent = {
+  /**
+   * The MIME type of the content.
+   */
+  mimeType: string;
+  /**
+   * The raw content.
+   */
+  data: Buffer;
+};
+
+/**
+ * Represents the options of a single prompt.
+ */
+export type PromptOptions = {
+  /**
+   * Enables the streaming mode. Called with the text received so far every time new tokens arrive.
+   * @param text - The accumulated text of the answer.
+   */
+  onText?: (text: string) => void;
+  /**
+   * Attributes every user turn to its author, so the model can tell participants of a shared conversation apart.
+   */
+  attributeAuthors?: boolean;
+  /**
+   * Overrides the system prompt of the service for this prompt, e.g. for a command with its own prompt.
+   */
+  systemPrompt?: string;
+  /**
+   * Asks for a plain text answer without tools and the JSON output mode, e.g. for a conversation summary.
+   */
+  plainText?: boolean;
+  /**
+   * The files attached to the user input, e.g. a photo.
+   */
+  attachments?: ConversationAttachment[];
+  /**
+   * Downloads an attachment of the conversation. Only references are stored in the history,
+   * so the content is downloaded every time the attachment is sent to the model.
+   * @param attachment - The attachment to download.
+   * @returns The content of the attachment.
+   */
+  loadAttachment?: (
+    attachment: ConversationAttachment
+  ) => Promise<AttachmentContent>;
+  /**
+   * Aborts the prompt, e.g. when the caller stopped waiting for it.
+   * The pending model call is cancelled and no tools are executed after the abort.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called with the token usage of every model call, including the calls of failed attempts.
+   * @param usage - The token usage of the call.
+   * @param model - The model of the call.
+   */
+  onUsage?: (usage: TokenUsage, model: string) => void;
+};
+
 /**
  * Represents an interface for a prompt service.
  * @template T The type of the prompt result.
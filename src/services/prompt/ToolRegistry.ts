@@ -0,0 +1,122 @@
+import { JSONSchema } from "../../utils/jsonSchema";
+import { FROM, TYPE, log } from "../../utils/logger";
+
+/**
+ * Context passed to a tool handler.
+ */
+export type BotToolContext = {
+  /**
+   * The username of the user who started the conversation.
+   */
+  username: string;
+};
+
+/**
+ * Represents a tool which the model can call during the conversation.
+ * @template TArgs - The type of the arguments the tool receives.
+ */
+export type BotTool<TArgs = any> = {
+  /**
+   * The name of the tool. Must match /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/.
+   */
+  name: string;
+  /**
+   * The description used by the model to decide when to call the tool.
+   */
+  description: string;
+  /**
+   * The JSON schema of the tool arguments. Must be of type "object".
+   */
+  parameters: JSONSchema;
+  /**
+   * Executes the tool.
+   * @param args - The arguments provided by the model.
+   * @param context - The context of the conversation.
+   * @returns The result of the tool, sent back to the model as JSON.
+   */
+  handler: (args: TArgs, context: BotToolContext) => unknown | Promise<unknown>;
+};
+
+/**
+ * The default number of call → execute → feed-result rounds per prompt.
+ */
+export const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+
+/**
+ * Represents a provider-neutral registry of tools available to the model.
+ */
+export class ToolRegistry {
+  private tools: Map<string, BotTool> = new Map();
+
+  /**
+   * Creates a new instance of ToolRegistry.
+   * @param tools - The tools to register.
+   */
+  constructor(tools: BotTool[] = []) {
+    tools.forEach((tool) => this.register(tool));
+    return this;
+  }
+
+  /**
+   * Registers a tool.
+   * @param tool - The tool to register.
+   * @throws {Error} Throws an error if a tool with the same name is already registered.
+   */
+  public register(tool: BotTool): void {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/.test(tool.name)) {
+      throw new Error(`Invalid tool name: ${tool.name}`);
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Returns all registered tools.
+   * @returns The list of registered tools.
+   */
+  public list(): BotTool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Checks whether the registry has any tools.
+   * @returns True if at least one tool is registered.
+   */
+  public isEmpty(): boolean {
+    return this.tools.size === 0;
+  }
+
+  /**
+   * Executes a tool called by the model.
+   * Errors are not thrown but returned to the model, so it can recover.
+   * @param name - The name of the tool.
+   * @param args - The arguments as an object or a JSON string.
+   * @param context - The context of the conversation.
+   * @returns The result of the tool.
+   */
+  public async execute(
+    name: string,
+    args: unknown,
+    context: BotToolContext
+  ): Promise<Record<string, unknown>> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      log(FROM.TOOLS, TYPE.ERROR, "Unknown tool:", name);
+      return { error: `Unknown tool: ${name}` };
+    }
+
+    try {
+      const parsedArgs =
+        typeof args === "string" ? JSON.parse(args || "{}") : args || {};
+      log(FROM.TOOLS, TYPE.INFO, `Calling tool: ${name}`);
+      log(FROM.TOOLS, TYPE.DEBUG, "Tool arguments:", parsedArgs);
+      const result = await tool.handler(parsedArgs, context);
+      return { result: result ?? null };
+    } catch (err) {
+      log(FROM.TOOLS, TYPE.ERROR, `Tool ${name} failed:`, err);
+      return { error: `${err}` };
+    }
+  }
+}
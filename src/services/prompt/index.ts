@@ -5,6 +5,19 @@ export {
 export {
   GeminiPromptService,
   type GeminiPromptServiceConfig,
-  type GeminiMessage,
 } from "./GeminiPromptService";
-export { type PromptServiceInterface } from "./PromptServiceInterface";
+export {
+  type AttachmentContent,
+  type PromptOptions,
+  type PromptServiceInterface,
+} from "./PromptServiceInterface";
+export {
+  ToolRegistry,
+  type BotTool,
+  type BotToolContext,
+} from "./ToolRegistry";
+export {
+  FailoverPromptService,
+  type FailoverPromptServiceConfig,
+  type FailoverProvider,
+} from "./FailoverPromptService";
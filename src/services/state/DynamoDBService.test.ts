@@ -0,0 +1,87 @@
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { DynamoDBService } from "./DynamoDBService";
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("DynamoDBService", () => {
+  it("claims an ID with a conditional write which allows expired claims", async () => {
+    const send = jest
+      .spyOn(DynamoDBClient.prototype, "send")
+      .mockResolvedValue({} as never);
+    const service = new DynamoDBService({ tableName: "table" });
+
+    expect(await service.claimItemById("processed:1", 60)).toBe(true);
+
+    const command = send.mock.calls[0][0] as PutItemCommand;
+    expect(command).toBeInstanceOf(PutItemCommand);
+    expect(command.input).toMatchObject({
+      TableName: "table",
+      Item: { id: { S: "processed:1" } },
+      ConditionExpression: "attribute_not_exists(id) OR #timestamp < :now",
+      ExpressionAttributeNames: { "#timestamp": "timestamp" },
+    });
+    const expiresAt = Number(command.input.Item!.timestamp.N);
+    const now = Number(command.input.ExpressionAttributeValues![":now"].N);
+    expect(expiresAt - now).toBe(60);
+  });
+
+  it("does not claim an ID which is already claimed", async () => {
+    jest.spyOn(DynamoDBClient.prototype, "send").mockRejectedValue(
+      new ConditionalCheckFailedException({
+        message: "The conditional request failed",
+        $metadata: {},
+      }) as never
+    );
+    const service = new DynamoDBService({ tableName: "table" });
+
+    expect(await service.claimItemById("processed:1", 60)).toBe(false);
+  });
+
+  it("rethrows the other errors of a claim", async () => {
+    jest
+      .spyOn(DynamoDBClient.prototype, "send")
+      .mockRejectedValue(new Error("Throttled") as never);
+    const service = new DynamoDBService({ tableName: "table" });
+
+    await expect(service.claimItemById("processed:1", 60)).rejects.toThrow(
+      "Throttled"
+    );
+  });
+
+  it("extends a claim in place", async () => {
+    const send = jest
+      .spyOn(DynamoDBClient.prototype, "send")
+      .mockResolvedValue({} as never);
+    const service = new DynamoDBService({ tableName: "table" });
+
+    await service.extendClaimById("processed:1", 3600);
+
+    const command = send.mock.calls[0][0] as UpdateItemCommand;
+    expect(command).toBeInstanceOf(UpdateItemCommand);
+    expect(command.input).toMatchObject({
+      Key: { id: { S: "processed:1" } },
+      UpdateExpression: "SET #timestamp = :expiresAt",
+    });
+  });
+
+  it("reads a counter without changing it", async () => {
+    const send = jest
+      .spyOn(DynamoDBClient.prototype, "send")
+      .mockResolvedValueOnce({ Item: { count: { N: "42" } } } as never)
+      .mockResolvedValueOnce({} as never);
+    const service = new DynamoDBService({ tableName: "table" });
+
+    expect(await service.getCounterById("usage:bot")).toBe(42);
+    expect(await service.getCounterById("usage:chat")).toBe(0);
+
+    const command = send.mock.calls[0][0] as GetItemCommand;
+    expect(command).toBeInstanceOf(GetItemCommand);
+    expect(command.input).toMatchObject({ Key: { id: { S: "usage:bot" } } });
+  });
+});
@@ -1,12 +1,18 @@
 import {
+  ConditionalCheckFailedException,
   DynamoDBClient,
   DynamoDBClientConfig,
+  DeleteItemCommand,
   GetItemCommand,
   PutItemCommand,
+  UpdateItemCommand,
 } from "@aws-sdk/client-dynamodb";
-import { StateServiceInterface } from "./StateServiceInterface";
+import {
+  DEFAULT_TTL_SECONDS,
+  StateServiceInterface,
+} from "./StateServiceInterface";
 import moment from "moment";
-import OpenAI from "openai";
+import { ConversationTurn } from "../../managers/ConversationTurn";
 
 /**
  * Configuration options for DynamoDBService.
@@ -20,36 +26,39 @@ export type DynamoDBServiceConfig = {
    * Additional configuration options for DynamoDBService.
    */
   config?: DynamoDBServiceConfig;
+  /**
+   * The number of seconds after the last update when an item expires. Defaults to 300.
+   */
+  ttlSeconds?: number;
 };
 
 /**
  * Represents a service for interacting with DynamoDB.
  */
 export class DynamoDBService
-  implements
-    StateServiceInterface<OpenAI.Chat.Completions.ChatCompletionMessageParam>
+  implements StateServiceInterface<ConversationTurn>
 {
   private dynamoDBClient: DynamoDBClient;
   private tableName: string;
+  private ttlSeconds: number;
 
   /**
    * Constructs a new instance of the DynamoDBService class.
    * @param {DynamoDBServiceConfig} options - The configuration options for the service.
    */
-  constructor({ tableName, config }: DynamoDBServiceConfig) {
+  constructor({ tableName, config, ttlSeconds }: DynamoDBServiceConfig) {
     this.dynamoDBClient = new DynamoDBClient(config || {});
     this.tableName = tableName;
+    this.ttlSeconds = ttlSeconds ?? DEFAULT_TTL_SECONDS;
     return this;
   }
 
   /**
    * Retrieves an item from DynamoDB by its ID.
    * @param {string} id - The ID of the item to retrieve.
-   * @returns {Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]>} A promise that resolves to an array of chat completion messages.
+   * @returns {Promise<ConversationTurn[]>} A promise that resolves to an array of conversation turns.
    */
-  public async getItemById(
-    id: string
-  ): Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]> {
+  public async getItemById(id: string): Promise<ConversationTurn[]> {
     const historyResponse = await this.dynamoDBClient.send(
       new GetItemCommand({
         ConsistentRead: true,
@@ -60,7 +69,7 @@ export class DynamoDBService
       })
     );
     return (
-      historyResponse.Item?.messages.L?.map((msg) =>
+      historyResponse.Item?.messages?.L?.map((msg) =>
         !!msg?.M?.message?.S ? JSON.parse(msg.M.message.S) : {}
       ) || []
     );
@@ -69,14 +78,14 @@ export class DynamoDBService
   /**
    * Sets an item in DynamoDB by its ID.
    * @param {string} id - The ID of the item to set.
-   * @param {OpenAI.Chat.Completions.ChatCompletionMessageParam[]} update - The chat completion messages to set.
+   * @param {ConversationTurn[]} update - The conversation turns to set.
    * @returns {Promise<void>} A promise that resolves when the item is set successfully.
    */
   public async setItemById(
     id: string,
-    update: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+    update: ConversationTurn[]
   ): Promise<void> {
-    const deleteIn5Minutes = moment().add(5, "minutes").unix();
+    const expiresAt = moment().add(this.ttlSeconds, "seconds").unix();
     await this.dynamoDBClient.send(
       new PutItemCommand({
         TableName: this.tableName,
@@ -90,7 +99,163 @@ export class DynamoDBService
               },
             })),
           },
-          timestamp: { N: String(deleteIn5Minutes) },
+          timestamp: { N: String(expiresAt) },
+        },
+      })
+    );
+  }
+
+  /**
+   * Deletes an item from DynamoDB by its ID.
+   * @param {string} id - The ID of the item to delete.
+   * @returns {Promise<void>} A promise that resolves when the item is deleted successfully.
+   */
+  public async deleteItemById(id: string): Promise<void> {
+    await this.dynamoDBClient.send(
+      new DeleteItemCommand({
+        TableName: this.tableName,
+        Key: {
+          id: { S: id },
+        },
+      })
+    );
+  }
+
+  /**
+   * Claims an ID with a conditional write, so concurrent invocations cannot both claim it.
+   * Claims which have expired but are not yet removed by the DynamoDB TTL can be claimed again.
+   * @param {string} id - The ID to claim.
+   * @param {number} ttlSeconds - The number of seconds the claim is kept.
+   * @returns {Promise<boolean>} A promise that resolves to true if the ID was claimed.
+   */
+  public async claimItemById(id: string, ttlSeconds: number): Promise<boolean> {
+    const now = moment().unix();
+    try {
+      await this.dynamoDBClient.send(
+        new PutItemCommand({
+          TableName: this.tableName,
+          Item: {
+            id: { S: id },
+            timestamp: { N: String(now + ttlSeconds) },
+          },
+          ConditionExpression: "attribute_not_exists(id) OR #timestamp < :now",
+          ExpressionAttributeNames: { "#timestamp": "timestamp" },
+          ExpressionAttributeValues: { ":now": { N: String(now) } },
+        })
+      );
+      return true;
+    } catch (err) {
+      if (err instanceof ConditionalCheckFailedException) return false;
+      throw err;
+    }
+  }
+
+  /**
+   * Sets a new expiry of a claim in place, so the ID stays claimed while it is extended.
+   * @param {string} id - The claimed ID.
+   * @param {number} ttlSeconds - The number of seconds the claim is kept from now on.
+   * @returns {Promise<void>} A promise that resolves when the claim is extended.
+   */
+  public async extendClaimById(id: string, ttlSeconds: number): Promise<void> {
+    await this.dynamoDBClient.send(
+      new UpdateItemCommand({
+        TableName: this.tableName,
+        Key: {
+          id: { S: id },
+        },
+        UpdateExpression: "SET #timestamp = :expiresAt",
+        ExpressionAttributeNames: { "#timestamp": "timestamp" },
+        ExpressionAttributeValues: {
+          ":expiresAt": { N: String(moment().unix() + ttlSeconds) },
+        },
+      })
+    );
+  }
+
+  /**
+   * Adds to a counter with an atomic update, so concurrent invocations do not lose counts.
+   * The expiry is set when the counter is created and is not extended by later updates.
+   * @param {string} id - The ID of the counter.
+   * @param {number} amount - The amount to add, 0 to only read the counter.
+   * @param {number} ttlSeconds - The number of seconds the counter is kept after it is created.
+   * @returns {Promise<number>} A promise that resolves to the value of the counter after the addition.
+   */
+  public async incrementCounterById(
+    id: string,
+    amount: number,
+    ttlSeconds: number
+  ): Promise<number> {
+    const counterResponse = await this.dynamoDBClient.send(
+      new UpdateItemCommand({
+        TableName: this.tableName,
+        Key: {
+          id: { S: id },
+        },
+        UpdateExpression:
+          "ADD #count :amount SET #timestamp = if_not_exists(#timestamp, :expiresAt)",
+        ExpressionAttributeNames: {
+          "#count": "count",
+          "#timestamp": "timestamp",
+        },
+        ExpressionAttributeValues: {
+          ":amount": { N: String(amount) },
+          ":expiresAt": { N: String(moment().unix() + ttlSeconds) },
+        },
+        ReturnValues: "UPDATED_NEW",
+      })
+    );
+    return Number(counterResponse.Attributes?.count?.N || 0);
+  }
+
+  /**
+   * Reads a counter from DynamoDB by its ID without changing it.
+   * @param {string} id - The ID of the counter.
+   * @returns {Promise<number>} A promise that resolves to the value of the counter, or 0 if it does not exist.
+   */
+  public async getCounterById(id: string): Promise<number> {
+    const counterResponse = await this.dynamoDBClient.send(
+      new GetItemCommand({
+        ConsistentRead: true,
+        TableName: this.tableName,
+        Key: {
+          id: { S: id },
+        },
+      })
+    );
+    return Number(counterResponse.Item?.count?.N || 0);
+  }
+
+  /**
+   * Retrieves a value from DynamoDB by its ID.
+   * @param {string} id - The ID of the value.
+   * @returns {Promise<string | undefined>} A promise that resolves to the value, or undefined if it was never set.
+   */
+  public async getValueById(id: string): Promise<string | undefined> {
+    const valueResponse = await this.dynamoDBClient.send(
+      new GetItemCommand({
+        ConsistentRead: true,
+        TableName: this.tableName,
+        Key: {
+          id: { S: id },
+        },
+      })
+    );
+    return valueResponse.Item?.value?.S;
+  }
+
+  /**
+   * Sets a value in DynamoDB by its ID. The item has no timestamp, so the TTL never removes it.
+   * @param {string} id - The ID of the value.
+   * @param {string} value - The value to keep.
+   * @returns {Promise<void>} A promise that resolves when the value is set successfully.
+   */
+  public async setValueById(id: string, value: string): Promise<void> {
+    await this.dynamoDBClient.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: {
+          id: { S: id },
+          value: { S: value },
         },
       })
     );
@@ -1,35 +1,60 @@
-import { StateServiceInterface } from "./StateServiceInterface";
-import OpenAI from "openai";
+import {
+  DEFAULT_TTL_SECONDS,
+  StateServiceInterface,
+} from "./StateServiceInterface";
+import { ConversationTurn } from "../../managers/ConversationTurn";
+import moment from "moment";
 
 /**
  * Represents the local state of the application.
  */
 export type LocalState = {
   id: string;
-  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+  messages: ConversationTurn[];
+  expiresAt: number;
 }[];
 
+/**
+ * Configuration options for LocalStateService.
+ */
+export type LocalStateServiceConfig = {
+  /**
+   * The number of seconds after the last update when an item expires. Defaults to 300.
+   */
+  ttlSeconds?: number;
+};
+
 /**
  * Represents a service for managing local state.
  */
 export class LocalStateService
-  implements
-    StateServiceInterface<OpenAI.Chat.Completions.ChatCompletionMessageParam>
+  implements StateServiceInterface<ConversationTurn>
 {
   private localState: LocalState = [];
+  private claims: Map<string, number> = new Map();
+  private counters: Map<string, { value: number; expiresAt: number }> =
+    new Map();
+  private values: Map<string, string> = new Map();
+  private ttlSeconds: number;
 
-  constructor() {
+  /**
+   * Constructs a new instance of the LocalStateService class.
+   * @param {LocalStateServiceConfig} options - The configuration options for the service.
+   */
+  constructor({ ttlSeconds }: LocalStateServiceConfig = {}) {
+    this.ttlSeconds = ttlSeconds ?? DEFAULT_TTL_SECONDS;
     return this;
   }
 
   /**
    * Retrieves an item from the local state by its ID.
    * @param id - The ID of the item to retrieve.
-   * @returns A promise that resolves to an array of chat completion message parameters.
+   * @returns A promise that resolves to an array of conversation turns.
    */
-  public async getItemById(
-    id: string
-  ): Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]> {
+  public async getItemById(id: string): Promise<ConversationTurn[]> {
+    const now = moment().unix();
+    // Expired items are removed lazily, like DynamoDB does with its TTL
+    this.localState = this.localState.filter((state) => state.expiresAt > now);
     return this.localState.find((state) => state.id === id)?.messages || [];
   }
 
@@ -38,19 +63,112 @@ export class LocalStateService
    * If the item already exists, it updates the messages.
    * If the item does not exist, it creates a new item with the specified ID and messages.
    * @param id - The ID of the item to set.
-   * @param update - The updated array of chat completion message parameters.
+   * @param update - The updated array of conversation turns.
    * @returns A promise that resolves when the item is set.
    */
   public async setItemById(
     id: string,
-    update: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+    update: ConversationTurn[]
   ): Promise<void> {
+    const expiresAt = moment().add(this.ttlSeconds, "seconds").unix();
     const item = this.localState.find((state) => state.id === id);
     if (item) {
       item.messages = update;
+      item.expiresAt = expiresAt;
     } else {
-      this.localState.push({ id, messages: update });
+      this.localState.push({ id, messages: update, expiresAt });
     }
     return;
   }
+
+  /**
+   * Deletes an item from the local state by its ID, and the claim of the ID, like DynamoDB does with its single table.
+   * @param id - The ID of the item to delete.
+   * @returns A promise that resolves when the item is deleted.
+   */
+  public async deleteItemById(id: string): Promise<void> {
+    this.localState = this.localState.filter((state) => state.id !== id);
+    this.claims.delete(id);
+    return;
+  }
+
+  /**
+   * Claims an ID in an in-memory set with expiry.
+   * @param id - The ID to claim.
+   * @param ttlSeconds - The number of seconds the claim is kept.
+   * @returns A promise that resolves to true if the ID was claimed.
+   */
+  public async claimItemById(id: string, ttlSeconds: number): Promise<boolean> {
+    const now = moment().unix();
+    this.claims.forEach((expiresAt, claimedId) => {
+      if (expiresAt <= now) this.claims.delete(claimedId);
+    });
+    if (this.claims.has(id)) return false;
+    this.claims.set(id, now + ttlSeconds);
+    return true;
+  }
+
+  /**
+   * Sets a new expiry of an in-memory claim.
+   * @param id - The claimed ID.
+   * @param ttlSeconds - The number of seconds the claim is kept from now on.
+   * @returns A promise that resolves when the claim is extended.
+   */
+  public async extendClaimById(id: string, ttlSeconds: number): Promise<void> {
+    this.claims.set(id, moment().unix() + ttlSeconds);
+  }
+
+  /**
+   * Adds to an in-memory counter with expiry.
+   * @param id - The ID of the counter.
+   * @param amount - The amount to add, 0 to only read the counter.
+   * @param ttlSeconds - The number of seconds the counter is kept after it is created.
+   * @returns A promise that resolves to the value of the counter after the addition.
+   */
+  public async incrementCounterById(
+    id: string,
+    amount: number,
+    ttlSeconds: number
+  ): Promise<number> {
+    const now = moment().unix();
+    this.counters.forEach(({ expiresAt }, counterId) => {
+      if (expiresAt <= now) this.counters.delete(counterId);
+    });
+    const counter = this.counters.get(id) || {
+      value: 0,
+      expiresAt: now + ttlSeconds,
+    };
+    counter.value += amount;
+    this.counters.set(id, counter);
+    return counter.value;
+  }
+
+  /**
+   * Reads an in-memory counter without changing it.
+   * @param id - The ID of the counter.
+   * @returns A promise that resolves to the value of the counter, or 0 if it does not exist or expired.
+   */
+  public async getCounterById(id: string): Promise<number> {
+    const counter = this.counters.get(id);
+    return counter && counter.expiresAt > moment().unix() ? counter.value : 0;
+  }
+
+  /**
+   * Retrieves an in-memory value.
+   * @param id - The ID of the value.
+   * @returns A promise that resolves to the value, or undefined if it was never set.
+   */
+  public async getValueById(id: string): Promise<string | undefined> {
+    return this.values.get(id);
+  }
+
+  /**
+   * Sets an in-memory value, kept until the process exits.
+   * @param id - The ID of the value.
+   * @param value - The value to keep.
+   * @returns A promise that resolves when the value is set.
+   */
+  public async setValueById(id: string, value: string): Promise<void> {
+    this.values.set(id, value);
+  }
 }
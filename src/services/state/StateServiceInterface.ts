@@ -1,3 +1,8 @@
+/**
+ * The default number of seconds after the last update when an item expires.
+ */
+export const DEFAULT_TTL_SECONDS = 300;
+
 /**
  * Represents an interface for a state service.
  * @template T - The type of the state item.
@@ -17,4 +22,62 @@ export interface StateServiceInterface<T> {
    * @returns A promise that resolves when the update is complete.
    */
   setItemById(id: string, update: T[]): Promise<void>;
+
+  /**
+   * Deletes the state items with the specified ID, or releases the claim of the ID.
+   * @param id - The ID of the state item.
+   * @returns A promise that resolves when the deletion is complete.
+   */
+  deleteItemById(id: string): Promise<void>;
+
+  /**
+   * Atomically marks the ID as claimed unless it is already claimed, e.g. to process an update only once.
+   * @param id - The ID to claim.
+   * @param ttlSeconds - The number of seconds the claim is kept.
+   * @returns A promise that resolves to true if the ID was claimed, or false if it was claimed before.
+   */
+  claimItemById(id: string, ttlSeconds: number): Promise<boolean>;
+
+  /**
+   * Keeps the claim of the ID for a new number of seconds, e.g. once the claimed update is processed.
+   * @param id - The claimed ID.
+   * @param ttlSeconds - The number of seconds the claim is kept from now on.
+   * @returns A promise that resolves when the claim is extended.
+   */
+  extendClaimById(id: string, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Atomically adds to the counter with the specified ID, e.g. to count the messages of a user.
+   * @param id - The ID of the counter.
+   * @param amount - The amount to add, 0 to only read the counter.
+   * @param ttlSeconds - The number of seconds the counter is kept after it is created.
+   * @returns A promise that resolves to the value of the counter after the addition.
+   */
+  incrementCounterById(
+    id: string,
+    amount: number,
+    ttlSeconds: number
+  ): Promise<number>;
+
+  /**
+   * Reads the counter with the specified ID without changing it.
+   * @param id - The ID of the counter.
+   * @returns A promise that resolves to the value of the counter, or 0 if it does not exist.
+   */
+  getCounterById(id: string): Promise<number>;
+
+  /**
+   * Retrieves a value which is kept until it is overwritten, e.g. a setting changed at runtime.
+   * @param id - The ID of the value.
+   * @returns A promise that resolves to the value, or undefined if it was never set.
+   */
+  getValueById(id: string): Promise<string | undefined>;
+
+  /**
+   * Sets a value which does not expire.
+   * @param id - The ID of the value.
+   * @param value - The value to keep.
+   * @returns A promise that resolves when the value is set.
+   */
+  setValueById(id: string, value: string): Promise<void>;
 }
@@ -0,0 +1,76 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { TranscriberInterface } from "./TranscriberInterface";
+import { AttachmentContent } from "../prompt/PromptServiceInterface";
+import { FROM, TYPE, log } from "../../utils/logger";
+
+/**
+ * Configuration object for the GeminiTranscriber.
+ */
+export type GeminiTranscriberConfig = {
+  /**
+   * The Google Generative AI API key.
+   */
+  apiKey: string;
+
+  /**
+   * The name of an audio-capable model, e.g. "gemini-1.5-flash".
+   */
+  modelName: string;
+
+  /**
+   * The instruction sent together with the audio.
+   */
+  prompt?: string;
+};
+
+const DEFAULT_TRANSCRIPTION_PROMPT =
+  "Transcribe the speech in this audio. Answer with the transcript only, " +
+  "in the language of the speech. Answer with an empty text if there is no speech.";
+
+/**
+ * Service for transcribing audio with the Gemini audio input.
+ */
+export class GeminiTranscriber implements TranscriberInterface {
+  private genAI: GoogleGenerativeAI;
+  private modelName: string;
+  private prompt: string;
+
+  /**
+   * Constructs a new instance of the GeminiTranscriber.
+   *
+   * @param apiKey - The Google Generative AI API key.
+   * @param modelName - The name of the model to use.
+   * @param prompt - The transcription instruction.
+   */
+  constructor({ apiKey, modelName, prompt }: GeminiTranscriberConfig) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.modelName = modelName;
+    this.prompt = prompt || DEFAULT_TRANSCRIPTION_PROMPT;
+  }
+
+  /**
+   * Transcribes an audio file with Gemini.
+   *
+   * @param audio - The content of the audio file.
+   * @returns A promise that resolves to the transcript.
+   * @throws Rethrows the provider error, so the caller can report it.
+   */
+  public async transcribe({
+    mimeType,
+    data,
+  }: AttachmentContent): Promise<string> {
+    try {
+      const model = this.genAI.getGenerativeModel({ model: this.modelName });
+      const result = await model.generateContent([
+        { inlineData: { mimeType, data: data.toString("base64") } },
+        { text: this.prompt },
+      ]);
+      const transcript = result.response.text().trim();
+      log(FROM.TRANSCRIPTION, TYPE.DEBUG, "Transcript:", { text: transcript });
+      return transcript;
+    } catch (err) {
+      log(FROM.TRANSCRIPTION, TYPE.ERROR, err);
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import OpenAI, { toFile } from "openai";
+import { TranscriberInterface } from "./TranscriberInterface";
+import { AttachmentContent } from "../prompt/PromptServiceInterface";
+import { FROM, TYPE, log } from "../../utils/logger";
+
+/**
+ * Configuration object for the OpenAITranscriber.
+ */
+export type OpenAITranscriberConfig = {
+  /**
+   * The OpenAI instance to be used for transcription.
+   */
+  openai: OpenAI;
+
+  /**
+   * The transcription model. Defaults to "whisper-1".
+   */
+  model?: string;
+
+  /**
+   * The ISO-639-1 language of the audio, e.g. "en". Detected automatically if not set.
+   */
+  language?: string;
+};
+
+const DEFAULT_MODEL = "whisper-1";
+
+/**
+ * Service for transcribing audio with OpenAI Whisper.
+ */
+export class OpenAITranscriber implements TranscriberInterface {
+  private openai: OpenAI;
+  private model: string;
+  private language?: string;
+
+  /**
+   * Constructs a new instance of the OpenAITranscriber.
+   *
+   * @param openai - The OpenAI instance.
+   * @param model - The transcription model.
+   * @param language - The language of the audio.
+   */
+  constructor({ openai, model, language }: OpenAITranscriberConfig) {
+    this.openai = openai;
+    this.model = model || DEFAULT_MODEL;
+    this.language = language;
+    return this;
+  }
+
+  /**
+   * Transcribes an audio file with Whisper.
+   *
+   * @param audio - The content of the audio file.
+   * @returns A promise that resolves to the transcript.
+   * @throws Rethrows the provider error, so the caller can report it.
+   */
+  public async transcribe({
+    mimeType,
+    data,
+  }: AttachmentContent): Promise<string> {
+    try {
+      // Whisper detects the format by the file extension
+      const extension = mimeType.split("/")[1]?.split(";")[0] || "ogg";
+      const transcription = await this.openai.audio.transcriptions.create({
+        file: await toFile(data, `audio.${extension}`, { type: mimeType }),
+        model: this.model,
+        ...(this.language && { language: this.language }),
+      });
+      log(FROM.TRANSCRIPTION, TYPE.DEBUG, "Transcript:", {
+        text: transcription.text,
+      });
+      return transcription.text?.trim() || "";
+    } catch (err) {
+      log(FROM.TRANSCRIPTION, TYPE.ERROR, err);
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { AttachmentContent } from "../prompt/PromptServiceInterface";
+
+/**
+ * Represents an interface for a speech-to-text service.
+ */
+export interface TranscriberInterface {
+  /**
+   * Transcribes an audio file to text.
+   * @param audio - The content of the audio file, e.g. an OGG voice message.
+   * @returns A promise that resolves to the transcript, empty if no speech was recognized.
+   */
+  transcribe(audio: AttachmentContent): Promise<string>;
+}
@@ -0,0 +1,37 @@
+import { createTurn } from "../managers/ConversationTurn";
+import { configureLogger } from "./logger";
+import { loadImages } from "./attachments";
+
+beforeAll(() => configureLogger({ sinks: [] }));
+
+describe("loadImages", () => {
+  const image = (fileId: string) => ({ type: "image" as const, fileId });
+
+  it("downloads every image once and in parallel, skipping failed ones", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const loadAttachment = jest.fn(async ({ fileId }: { fileId?: string }) => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      running--;
+      if (fileId === "broken") throw new Error("Not found");
+      return { mimeType: "image/jpeg", data: Buffer.from(fileId!) };
+    });
+    const turns = [
+      createTurn("user", "First", { attachments: [image("a"), image("b")] }),
+      createTurn("user", "Second", {
+        attachments: [
+          image("a"),
+          image("broken"),
+          { type: "document", fileId: "c" },
+        ],
+      }),
+    ];
+
+    const images = await loadImages(turns, loadAttachment);
+
+    expect(loadAttachment).toHaveBeenCalledTimes(3);
+    expect(maxRunning).toBe(3);
+    expect([...images.keys()].sort()).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { ConversationTurn } from "../managers/ConversationTurn";
+import {
+  AttachmentContent,
+  PromptOptions,
+} from "../services/prompt/PromptServiceInterface";
+import { FROM, TYPE, log } from "./logger";
+
+/**
+ * Downloads the images attached to the conversation turns in parallel.
+ * Images which fail to download are skipped, so the prompt is still made with the text.
+ * @param turns - The conversation turns.
+ * @param loadAttachment - Downloads an attachment.
+ * @returns The image contents by their Telegram file ID.
+ */
+export const loadImages = async (
+  turns: ConversationTurn[],
+  loadAttachment: PromptOptions["loadAttachment"]
+): Promise<Map<string, AttachmentContent>> => {
+  const images: Map<string, AttachmentContent> = new Map();
+  if (!loadAttachment) return images;
+
+  // The same image can be attached to several turns, e.g. after an edit
+  const imagesById = new Map(
+    turns
+      .flatMap(({ attachments }) => attachments || [])
+      .filter(({ type, fileId }) => type === "image" && fileId)
+      .map((attachment) => [attachment.fileId!, attachment])
+  );
+  await Promise.all(
+    [...imagesById].map(async ([fileId, attachment]) => {
+      try {
+        images.set(fileId, await loadAttachment(attachment));
+      } catch (err) {
+        log(FROM.BOT, TYPE.ERROR, "Attachment download error:", err);
+      }
+    })
+  );
+
+  return images;
+};
+
+/**
+ * Returns the image contents attached to the turn.
+ * @param turn - The conversation turn.
+ * @param images - The downloaded image contents by their Telegram file ID.
+ * @returns The image contents of the turn.
+ */
+export const getTurnImages = (
+  turn: ConversationTurn,
+  images: Map<string, AttachmentContent>
+): AttachmentContent[] =>
+  (turn.attachments || [])
+    .map(({ fileId }) => (fileId ? images.get(fileId) : undefined))
+    .filter((image): image is AttachmentContent => !!image);
+
+/**
+ * Describes the attachments of the turn in text, e.g. when their content is not available.
+ * @param turn - The conversation turn.
+ * @returns The description of the attachments, or an empty string if there are none.
+ */
+export const describeAttachments = ({
+  attachments,
+}: ConversationTurn): string =>
+  (attachments || [])
+    .map(({ type, fileName }) => `[${fileName || type}]`)
+    .join(" ");
@@ -0,0 +1,64 @@
+import pdfParse from "pdf-parse";
+import { ConversationAttachment } from "../managers/ConversationTurn";
+
+/**
+ * Represents a document format the text can be extracted from.
+ */
+export type DocumentFormat = "txt" | "md" | "csv" | "json" | "pdf";
+
+/**
+ * The document formats the text can be extracted from.
+ */
+export const SUPPORTED_DOCUMENT_FORMATS: DocumentFormat[] = [
+  "txt",
+  "md",
+  "csv",
+  "json",
+  "pdf",
+];
+
+/**
+ * The document formats by MIME type, used when the file name has no known extension.
+ */
+const MIME_TYPE_FORMATS: Record<string, DocumentFormat> = {
+  "text/plain": "txt",
+  "text/markdown": "md",
+  "text/x-markdown": "md",
+  "text/csv": "csv",
+  "application/json": "json",
+  "application/pdf": "pdf",
+};
+
+/**
+ * Detects the format of a document by its file name or MIME type.
+ * @param attachment - The document attachment.
+ * @returns The document format or undefined if the format is not supported.
+ */
+export const getDocumentFormat = ({
+  fileName,
+  mimeType,
+}: ConversationAttachment): DocumentFormat | undefined => {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  const format = SUPPORTED_DOCUMENT_FORMATS.find(
+    (format) => format === extension
+  );
+  if (format) return format;
+  if (extension === "markdown") return "md";
+  return mimeType ? MIME_TYPE_FORMATS[mimeType.split(";")[0]] : undefined;
+};
+
+/**
+ * Extracts the text of a document.
+ * @param format - The format of the document.
+ * @param data - The content of the document.
+ * @returns The text of the document.
+ */
+export const extractDocumentText = async (
+  format: DocumentFormat,
+  data: Buffer
+): Promise<string> => {
+  if (format === "pdf") {
+    return (await pdfParse(data)).text.trim();
+  }
+  return data.toString("utf8").trim();
+};
@@ -0,0 +1,58 @@
+import { JSONSchema, validateJSONSchema } from "./jsonSchema";
+
+describe("validateJSONSchema", () => {
+  const schema: JSONSchema = {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      age: { type: "integer" },
+      size: { type: "string", enum: ["S", "M", "L"] },
+      tags: { type: "array", items: { type: "string" } },
+      note: { type: "string", nullable: true },
+    },
+    required: ["name"],
+    additionalProperties: false,
+  };
+
+  it("accepts a valid value", () => {
+    expect(
+      validateJSONSchema(schema, {
+        name: "Ann",
+        age: 30,
+        size: "M",
+        tags: ["a"],
+        note: null,
+      })
+    ).toEqual([]);
+  });
+
+  it("accepts an integer as a number", () => {
+    expect(validateJSONSchema({ type: "number" }, 3)).toEqual([]);
+  });
+
+  it("reports every invalid property by its path", () => {
+    expect(
+      validateJSONSchema(schema, {
+        age: 1.5,
+        size: "XL",
+        tags: ["a", 2],
+        extra: true,
+      })
+    ).toEqual([
+      "$.name is required",
+      "$.age must be of type integer, got number",
+      '$.size must be one of ["S","M","L"]',
+      "$.tags[1] must be of type string, got integer",
+      "$.extra is not allowed",
+    ]);
+  });
+
+  it("rejects null unless the schema is nullable", () => {
+    expect(validateJSONSchema({ type: "string" }, null, "result")).toEqual([
+      "result must not be null",
+    ]);
+    expect(
+      validateJSONSchema({ type: "string", nullable: true }, null)
+    ).toEqual([]);
+  });
+});
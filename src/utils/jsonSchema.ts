@@ -0,0 +1,131 @@
+/**
+ * Represents the subset of JSON Schema supported by both OpenAI and Gemini.
+ */
+export type JSONSchema = {
+  type?: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  enum?: (string | number | boolean)[];
+  format?: string;
+  nullable?: boolean;
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+};
+
+/**
+ * Keywords understood by Gemini's OpenAPI-flavoured schema.
+ * Everything else is stripped before the schema is sent to Gemini.
+ */
+const GEMINI_SCHEMA_KEYS = [
+  "type",
+  "description",
+  "enum",
+  "format",
+  "nullable",
+  "items",
+  "properties",
+  "required",
+];
+
+/**
+ * Converts a JSON schema into the schema format accepted by Gemini.
+ * @param schema - The JSON schema to convert.
+ * @returns The schema without keywords unsupported by Gemini.
+ */
+export const toGeminiSchema = (schema: JSONSchema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const key of GEMINI_SCHEMA_KEYS) {
+    const value = schema[key as keyof JSONSchema];
+    if (value === undefined) continue;
+    if (key === "items") {
+      result.items = toGeminiSchema(value as JSONSchema);
+    } else if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JSONSchema>).map(
+          ([name, property]) => [name, toGeminiSchema(property)]
+        )
+      );
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+/**
+ * Returns the JSON schema type of a value.
+ * @param value - The value to check.
+ * @returns The JSON schema type name.
+ */
+const getValueType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+/**
+ * Validates a value against a JSON schema.
+ * @param schema - The JSON schema to validate against.
+ * @param value - The value to validate.
+ * @param path - The path of the value, used in error messages.
+ * @returns The list of validation errors, empty if the value is valid.
+ */
+export const validateJSONSchema = (
+  schema: JSONSchema,
+  value: unknown,
+  path: string = "$"
+): string[] => {
+  const valueType = getValueType(value);
+
+  if (value === null) {
+    return schema.nullable || !schema.type ? [] : [`${path} must not be null`];
+  }
+  if (
+    schema.type &&
+    schema.type !== valueType &&
+    !(schema.type === "number" && valueType === "integer")
+  ) {
+    return [`${path} must be of type ${schema.type}, got ${valueType}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path} must be one of ${JSON.stringify(schema.enum)}`];
+  }
+
+  const errors: string[] = [];
+  if (valueType === "array" && schema.items) {
+    (value as unknown[]).forEach((item, index) =>
+      errors.push(
+        ...validateJSONSchema(schema.items!, item, `${path}[${index}]`)
+      )
+    );
+  }
+  if (valueType === "object") {
+    const object = value as Record<string, unknown>;
+    schema.required?.forEach((key) => {
+      if (object[key] === undefined) errors.push(`${path}.${key} is required`);
+    });
+    Object.entries(object).forEach(([key, property]) => {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(
+          ...validateJSONSchema(propertySchema, property, `${path}.${key}`)
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+  return errors;
+};
+
+/**
+ * Creates a system prompt instruction asking the model to answer with JSON.
+ * @param schema - The JSON schema of the answer.
+ * @returns The instruction to append to the system prompt.
+ */
+export const getJSONSchemaInstruction = (schema: JSONSchema): string =>
+  `Always respond with a single JSON object matching this JSON schema: ${JSON.stringify(
+    schema
+  )}`;
@@ -0,0 +1,100 @@
+import type { LogEntry } from "../services/logging/LogSinkInterface";
+import {
+  FROM,
+  TYPE,
+  configureLogger,
+  getCorrelationId,
+  log,
+  withCorrelationId,
+} from "./logger";
+
+const BOT_TOKEN = "123456789:AAHdqTcvCH1vGWJxfSeofSAs0K5PALDsaw";
+const OPENAI_KEY = "sk-proj-abcdefghijklmnopqrstuvwxyz012345";
+
+let entries: LogEntry[] = [];
+
+beforeAll(() =>
+  configureLogger({
+    level: TYPE.DEBUG,
+    sinks: [{ write: (entry) => entries.push(entry) }],
+  })
+);
+
+beforeEach(() => {
+  entries = [];
+});
+
+describe("log", () => {
+  it("masks the message text, the names and the secrets in nested objects", () => {
+    log(FROM.BOT, TYPE.DEBUG, "Update:", {
+      message: {
+        text: "My secret plans",
+        from: { id: 1, first_name: "Ann", username: "ann" },
+        reply_to_message: { caption: "Photo of Ann" },
+      },
+      headers: { Authorization: "Bearer secret", "X-Request-Id": "1" },
+      providers: [{ name: "openai", apiKey: OPENAI_KEY }],
+    });
+
+    expect(entries[0].message).toBe("Update:");
+    expect(entries[0].data).toEqual([
+      {
+        message: {
+          text: "[REDACTED]",
+          from: { id: 1, first_name: "[REDACTED]", username: "[REDACTED]" },
+          reply_to_message: { caption: "[REDACTED]" },
+        },
+        headers: { Authorization: "[REDACTED]", "X-Request-Id": "1" },
+        providers: [{ name: "openai", apiKey: "[REDACTED]" }],
+      },
+    ]);
+  });
+
+  it("masks the tokens, keys, emails and phone numbers in any text", () => {
+    const error = new Error(
+      `GET https://api.telegram.org/file/bot${BOT_TOKEN}/photos/1.jpg failed`
+    );
+
+    log(
+      FROM.BOT,
+      TYPE.ERROR,
+      `Key ${OPENAI_KEY} of ann@example.com, +1 (555) 123-4567:`,
+      error,
+      { url: `https://api.telegram.org/bot${BOT_TOKEN}/getMe` }
+    );
+
+    const serialized = JSON.stringify(entries[0]);
+    expect(serialized).not.toContain(BOT_TOKEN);
+    expect(serialized).not.toContain(OPENAI_KEY);
+    expect(entries[0].message).toBe("Key [TOKEN] of [EMAIL], [PHONE]:");
+    expect(entries[0].data).toEqual([
+      expect.objectContaining({
+        message:
+          "GET https://api.telegram.org/file/bot[TOKEN]/photos/1.jpg failed",
+      }),
+      { url: "https://api.telegram.org/bot[TOKEN]/getMe" },
+    ]);
+  });
+
+  it("attaches the correlation ID to the entries of the update, also after awaiting", async () => {
+    await withCorrelationId("42", async () => {
+      log(FROM.BOT, TYPE.INFO, "Before");
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(getCorrelationId()).toBe("42");
+      log(FROM.BOT, TYPE.INFO, "After");
+    });
+    log(FROM.BOT, TYPE.INFO, "Outside");
+
+    expect(entries.map(({ correlationId }) => correlationId)).toEqual([
+      "42",
+      "42",
+      undefined,
+    ]);
+  });
+
+  it("generates a correlation ID when none is given", () => {
+    withCorrelationId(undefined, () => log(FROM.BOT, TYPE.INFO, "Update"));
+
+    expect(entries[0].correlationId).toMatch(/^[\w-]{36}$/);
+  });
+});
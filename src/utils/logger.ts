@@ -1,8 +1,18 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type {
+  LogEntry,
+  LogSinkInterface,
+} from "../services/logging/LogSinkInterface";
+
 export enum FROM {
   LAMBDA = "Lambda",
   BOT = "Bot",
   OPEN_AI = "OpenAI",
   GEMINI = "Gemini",
+  TOOLS = "Tools",
+  FAILOVER = "Failover",
+  TRANSCRIPTION = "Transcription",
   GOOGLE_SHEETS = "GoogleSheets",
   DYNAMO_DB = "DynamoDB",
   HISTORY = "History",
@@ -11,20 +21,241 @@ export enum FROM {
 }
 
 export enum TYPE {
+  DEBUG = "DEBUG",
   INFO = "INFO",
-  ERROR = "ERROR",
   SUCCESS = "SUCCESS",
+  WARN = "WARN",
+  ERROR = "ERROR",
 }
 
 /**
- * Logs messages with the specified log level and origin.
+ * Represents a rule which replaces personal data found in logged text.
+ */
+export type RedactionRule = {
+  /**
+   * The pattern of the personal data. Must have the global flag to replace every match.
+   */
+  pattern: RegExp;
+  /**
+   * The text the match is replaced with.
+   */
+  replacement: string;
+};
+
+/**
+ * Configuration options of the logger.
+ */
+export type LoggerConfig = {
+  /**
+   * The minimum level of the written entries. Defaults to the LOG_LEVEL env variable or INFO.
+   */
+  level?: TYPE;
+  /**
+   * The destinations of the entries. Defaults to JSON lines in the console.
+   */
+  sinks?: LogSinkInterface[];
+  /**
+   * The keys whose values are replaced in logged objects, compared case-insensitively,
+   * e.g. the message text and the names of Telegram users.
+   */
+  redactKeys?: string[];
+  /**
+   * The rules applied to all logged text, e.g. to hide email addresses.
+   */
+  redactionRules?: RedactionRule[];
+};
+
+/**
+ * The order of the levels. SUCCESS is written with INFO.
+ */
+const LEVEL_ORDER: Record<TYPE, number> = {
+  [TYPE.DEBUG]: 0,
+  [TYPE.INFO]: 1,
+  [TYPE.SUCCESS]: 1,
+  [TYPE.WARN]: 2,
+  [TYPE.ERROR]: 3,
+};
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * The nesting depth after which logged objects are cut off.
+ */
+const MAX_DEPTH = 6;
+
+/**
+ * Writes log entries as JSON lines to the console, errors and warnings to stderr.
+ */
+export const consoleLogSink: LogSinkInterface = {
+  write: (entry: LogEntry) => {
+    const method =
+      entry.level === TYPE.ERROR
+        ? "error"
+        : entry.level === TYPE.WARN
+        ? "warn"
+        : entry.level === TYPE.DEBUG
+        ? "debug"
+        : "info";
+    console[method](JSON.stringify(entry));
+  },
+};
+
+/**
+ * The default keys of personal data and secrets in Telegram updates, conversation turns and requests.
+ */
+export const DEFAULT_REDACT_KEYS = [
+  "text",
+  "caption",
+  "first_name",
+  "last_name",
+  "username",
+  "author",
+  "phone_number",
+  "email",
+  "body",
+  "authorization",
+  "x-telegram-bot-api-secret-token",
+  "secret_token",
+  "token",
+  "apiKey",
+  "api_key",
+];
+
+/**
+ * The default rules which hide Telegram bot tokens, e.g. in file URLs, OpenAI keys,
+ * email addresses and international phone numbers.
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { pattern: /\d{5,}:[\w-]{30,}/g, replacement: "[TOKEN]" },
+  { pattern: /\bsk-[\w-]{20,}/g, replacement: "[TOKEN]" },
+  { pattern: /[\w.+-]+@[\w-]+\.[\w.-]+/g, replacement: "[EMAIL]" },
+  { pattern: /\+\d[\d\s()-]{7,}\d/g, replacement: "[PHONE]" },
+];
+
+const config: Required<LoggerConfig> = {
+  level:
+    (TYPE as Record<string, TYPE>)[process.env.LOG_LEVEL || ""] || TYPE.INFO,
+  sinks: [consoleLogSink],
+  redactKeys: DEFAULT_REDACT_KEYS,
+  redactionRules: DEFAULT_REDACTION_RULES,
+};
+
+const correlationStorage = new AsyncLocalStorage<string>();
+
+/**
+ * Changes the configuration of the logger. Options which are not provided are kept.
+ * @param options The configuration options to change.
+ */
+export const configureLogger = (options: LoggerConfig) => {
+  Object.assign(
+    config,
+    Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    )
+  );
+};
+
+/**
+ * Runs the function with a correlation ID, added to every entry logged while it runs,
+ * including the asynchronous work it starts.
+ * @param correlationId The correlation ID, e.g. the update ID. A random ID is used if empty.
+ * @param fn The function to run.
+ * @returns The result of the function.
+ */
+export const withCorrelationId = <T>(
+  correlationId: string | undefined,
+  fn: () => T
+): T => correlationStorage.run(correlationId || randomUUID(), fn);
+
+/**
+ * Returns the correlation ID of the running update.
+ * @returns The correlation ID or undefined if none is set.
+ */
+export const getCorrelationId = (): string | undefined =>
+  correlationStorage.getStore();
+
+/**
+ * Applies the redaction rules to a text.
+ * @param text The text to redact.
+ * @returns The redacted text.
+ */
+const redactText = (text: string): string =>
+  config.redactionRules.reduce(
+    (redacted, { pattern, replacement }) =>
+      redacted.replace(pattern, replacement),
+    text
+  );
+
+/**
+ * Converts a logged value to plain JSON data with the personal data redacted.
+ * @param value The logged value.
+ * @param depth The nesting depth of the value.
+ * @param seen The objects on the path to the value, to cut off circular references.
+ * @returns The JSON data.
+ */
+const serialize = (
+  value: unknown,
+  depth: number = 0,
+  seen: Set<unknown> = new Set()
+): unknown => {
+  if (typeof value === "string") return redactText(value);
+  if (typeof value === "function") return "[Function]";
+  if (typeof value === "bigint") return String(value);
+  if (!value || typeof value !== "object") return value;
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      stack: value.stack && redactText(value.stack),
+    };
+  }
+  if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+  if (value instanceof Date) return value.toISOString();
+  if (seen.has(value)) return "[Circular]";
+  if (depth >= MAX_DEPTH) return "[Object]";
+
+  const path = new Set(seen).add(value);
+  if (Array.isArray(value)) {
+    return value.map((item) => serialize(item, depth + 1, path));
+  }
+  const redactKeys = config.redactKeys.map((key) => key.toLowerCase());
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      redactKeys.includes(key.toLowerCase()) && item !== undefined
+        ? REDACTED
+        : serialize(item, depth + 1, path),
+    ])
+  );
+};
+
+/**
+ * Logs messages with the specified log level and origin as a structured entry.
+ * Text messages form the message of the entry, other values are added as data.
  * @param from The origin of the log message.
- * @param type The log level (error or info).
+ * @param type The log level.
  * @param messages The messages to be logged.
  */
 export const log = (from: FROM, type: TYPE, ...messages: any[]) => {
-  console[type === TYPE.ERROR ? "error" : "info"](
-    `${from}:${type}:`,
-    ...messages
-  );
+  if (LEVEL_ORDER[type] < LEVEL_ORDER[config.level]) return;
+
+  const data = messages.filter((message) => typeof message !== "string");
+  const correlationId = getCorrelationId();
+  const entry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    level: type,
+    from,
+    message: redactText(
+      messages.filter((message) => typeof message === "string").join(" ")
+    ),
+    ...(data.length && { data: data.map((item) => serialize(item)) }),
+    ...(correlationId && { correlationId }),
+  };
+  config.sinks.forEach((sink) => {
+    try {
+      sink.write(entry);
+    } catch (err) {
+      console.error("Log sink error:", err);
+    }
+  });
 };
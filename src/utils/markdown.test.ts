@@ -0,0 +1,54 @@
+import { convertMarkdown, escapeHTML, escapeMarkdownV2 } from "./markdown";
+
+describe("escapeMarkdownV2", () => {
+  it("escapes the reserved characters of plain text", () => {
+    expect(escapeMarkdownV2("snake_case * 2. Wow! (maybe) a\\b")).toBe(
+      "snake\\_case \\* 2\\. Wow\\! \\(maybe\\) a\\\\b"
+    );
+  });
+});
+
+describe("escapeHTML", () => {
+  it("escapes the characters of HTML markup", () => {
+    expect(escapeHTML("a < b && c > d")).toBe("a &lt; b &amp;&amp; c &gt; d");
+  });
+});
+
+describe("convertMarkdown", () => {
+  const markdown = [
+    "**Note:** use `a\\b` in snake_case (see [docs](https://en.wikipedia.org/wiki/Foo_(bar))).",
+    "```js",
+    'const s = `${a}\\n` < "b";',
+    "```",
+  ].join("\n");
+
+  it("converts to MarkdownV2, escaping text, code and link URLs", () => {
+    expect(convertMarkdown(markdown, "markdownv2")).toBe(
+      [
+        "*Note:* use `a\\\\b` in snake\\_case \\(see [docs](https://en.wikipedia.org/wiki/Foo_(bar\\))\\)\\.",
+        "```js",
+        'const s = \\`${a}\\\\n\\` < "b";',
+        "```",
+      ].join("\n")
+    );
+  });
+
+  it("converts to HTML, escaping text, code and link URLs", () => {
+    expect(convertMarkdown(markdown, "html")).toBe(
+      [
+        '<b>Note:</b> use <code>a\\b</code> in snake_case (see <a href="https://en.wikipedia.org/wiki/Foo_(bar)">docs</a>).',
+        '<pre><code class="language-js">const s = `${a}\\n` &lt; "b";</code></pre>',
+      ].join("\n")
+    );
+  });
+
+  it("escapes the quotes of link URLs in HTML", () => {
+    expect(convertMarkdown('[x](https://a.b/?q="1")', "html")).toBe(
+      '<a href="https://a.b/?q=&quot;1&quot;">x</a>'
+    );
+  });
+
+  it("keeps the plain format as it is", () => {
+    expect(convertMarkdown(markdown, "plain")).toBe(markdown);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Represents a Telegram formatting of a reply.
+ * - "html" - the Telegram HTML parse mode
+ * - "markdownv2" - the Telegram MarkdownV2 parse mode
+ * - "plain" - the text as it is, without formatting
+ */
+export type ReplyFormat = "html" | "markdownv2" | "plain";
+
+/**
+ * Represents a piece of a line of markdown.
+ */
+type InlineNode =
+  | { type: "text" | "code"; text: string }
+  | { type: "bold" | "italic" | "strike"; children: InlineNode[] }
+  | { type: "link"; url: string; children: InlineNode[] };
+
+/**
+ * Represents a line of markdown or a fenced code block.
+ */
+type BlockNode =
+  | { type: "pre"; language: string; code: string }
+  | { type: "line"; children: InlineNode[] };
+
+/**
+ * Matches the inline markdown of LLM answers: code, bold, strikethrough, links and italic.
+ * Underscores inside words, e.g. in snake_case, are not italic.
+ */
+const INLINE_REGEX =
+  /`([^`\n]+)`|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\[([^\]\n]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)|(?<![\w*])\*(?![\s*])([^*\n]+?)(?<!\s)\*(?![\w*])|(?<![\w_])_(?![\s_])([^_\n]+?)(?<!\s)_(?![\w_])/;
+
+/**
+ * Matches the opening line of a fenced code block.
+ */
+const FENCE_REGEX = /^\s*```\s*([\w+#.-]*)\s*$/;
+
+/**
+ * Parses the inline markdown of a line.
+ * @param text - The line.
+ * @returns The pieces of the line.
+ */
+const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+  let match: RegExpExecArray | null;
+  while ((match = INLINE_REGEX.exec(rest))) {
+    if (match.index > 0) {
+      nodes.push({ type: "text", text: rest.slice(0, match.index) });
+    }
+    const [
+      ,
+      code,
+      bold,
+      boldUnderscore,
+      strike,
+      label,
+      url,
+      italic,
+      italicUnderscore,
+    ] = match;
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (bold !== undefined || boldUnderscore !== undefined) {
+      nodes.push({
+        type: "bold",
+        children: parseInline(bold ?? boldUnderscore),
+      });
+    } else if (strike !== undefined) {
+      nodes.push({ type: "strike", children: parseInline(strike) });
+    } else if (label !== undefined) {
+      nodes.push({ type: "link", url, children: parseInline(label) });
+    } else {
+      nodes.push({
+        type: "italic",
+        children: parseInline(italic ?? italicUnderscore),
+      });
+    }
+    rest = rest.slice(match.index + match[0].length);
+  }
+  if (rest) nodes.push({ type: "text", text: rest });
+  return nodes;
+};
+
+/**
+ * Parses markdown into lines and fenced code blocks.
+ * Headings become bold lines and list markers become bullets; an unclosed code block runs to the end.
+ * @param markdown - The markdown text.
+ * @returns The blocks of the text.
+ */
+const parseBlocks = (markdown: string): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  const lines = markdown.split("\n");
+  for (let index = 0; index < lines.length; index++) {
+    const fence = lines[index].match(FENCE_REGEX);
+    if (fence) {
+      const end = lines.findIndex(
+        (line, lineIndex) => lineIndex > index && /^\s*```\s*$/.test(line)
+      );
+      const lastIndex = end === -1 ? lines.length : end;
+      blocks.push({
+        type: "pre",
+        language: fence[1],
+        code: lines.slice(index + 1, lastIndex).join("\n"),
+      });
+      index = lastIndex;
+      continue;
+    }
+
+    const heading = lines[index].match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      blocks.push({
+        type: "line",
+        children: [{ type: "bold", children: parseInline(heading[1]) }],
+      });
+      continue;
+    }
+    const line = lines[index].replace(/^(\s*)[-*+]\s+/, "$1• ");
+    blocks.push({ type: "line", children: parseInline(line) });
+  }
+  return blocks;
+};
+
+/**
+ * Escapes the text for the Telegram HTML parse mode.
+ * @param text - The text.
+ * @returns The escaped text.
+ */
+export const escapeHTML = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Escapes the text for the Telegram MarkdownV2 parse mode.
+ * @param text - The text.
+ * @returns The escaped text.
+ */
+export const escapeMarkdownV2 = (text: string): string =>
+  text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
+
+/**
+ * Renders the pieces of a line in the Telegram HTML parse mode.
+ * @param nodes - The pieces of the line.
+ * @returns The HTML.
+ */
+const renderInlineHTML = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeHTML(node.text);
+        case "code":
+          return `<code>${escapeHTML(node.text)}</code>`;
+        case "bold":
+          return `<b>${renderInlineHTML(node.children)}</b>`;
+        case "italic":
+          return `<i>${renderInlineHTML(node.children)}</i>`;
+        case "strike":
+          return `<s>${renderInlineHTML(node.children)}</s>`;
+        case "link":
+          return `<a href="${escapeHTML(node.url).replace(
+            /"/g,
+            "&quot;"
+          )}">${renderInlineHTML(node.children)}</a>`;
+      }
+    })
+    .join("");
+
+/**
+ * Renders the pieces of a line in the Telegram MarkdownV2 parse mode.
+ * @param nodes - The pieces of the line.
+ * @returns The MarkdownV2 text.
+ */
+const renderInlineMarkdownV2 = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeMarkdownV2(node.text);
+        case "code":
+          return `\`${node.text.replace(/[`\\]/g, "\\$&")}\``;
+        case "bold":
+          return `*${renderInlineMarkdownV2(node.children)}*`;
+        case "italic":
+          return `_${renderInlineMarkdownV2(node.children)}_`;
+        case "strike":
+          return `~${renderInlineMarkdownV2(node.children)}~`;
+        case "link":
+          return `[${renderInlineMarkdownV2(node.children)}](${node.url.replace(
+            /[)\\]/g,
+            "\\$&"
+          )})`;
+      }
+    })
+    .join("");
+
+/**
+ * Converts the markdown of an LLM answer to the Telegram HTML or MarkdownV2 parse mode.
+ * @param markdown - The markdown text.
+ * @param format - The Telegram formatting.
+ * @returns The formatted text, or the markdown as it is for the plain format.
+ */
+export const convertMarkdown = (
+  markdown: string,
+  format: ReplyFormat
+): string => {
+  if (format === "plain") return markdown;
+  return parseBlocks(markdown)
+    .map((block) => {
+      if (block.type === "line") {
+        return format === "html"
+          ? renderInlineHTML(block.children)
+          : renderInlineMarkdownV2(block.children);
+      }
+      if (format === "html") {
+        const code = escapeHTML(block.code);
+        return block.language
+          ? `<pre><code class="language-${block.language}">${code}</code></pre>`
+          : `<pre>${code}</pre>`;
+      }
+      return `\`\`\`${block.language}\n${block.code.replace(
+        /[`\\]/g,
+        "\\$&"
+      )}\n\`\`\``;
+    })
+    .join("\n");
+};
+
+/**
+ * Splits a text longer than the limit, preferring line breaks and then spaces.
+ * @param text - The text.
+ * @param limit - The maximum length of a part.
+ * @param breakAtSpaces - Whether a part can end at a space, false for code.
+ * @returns The parts of the text.
+ */
+const splitLongText = (
+  text: string,
+  limit: number,
+  breakAtSpaces: boolean
+): string[] => {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > limit) {
+    let cut = rest.lastIndexOf("\n", limit);
+    if (breakAtSpaces && cut < limit / 2) {
+      cut = Math.max(cut, rest.lastIndexOf(" ", limit));
+    }
+    if (cut <= 0) cut = limit;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(/[\n ]/.test(rest[cut]) ? cut + 1 : cut);
+  }
+  parts.push(rest);
+  return parts;
+};
+
+/**
+ * Splits the markdown into paragraphs and whole fenced code blocks.
+ * @param markdown - The markdown text.
+ * @returns The paragraphs and code blocks.
+ */
+const splitBlocks = (markdown: string): string[] => {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | undefined;
+  const flush = () => {
+    if (current.length) blocks.push(current.join("\n"));
+    current = [];
+  };
+  for (const line of markdown.split("\n")) {
+    if (fence === undefined && FENCE_REGEX.test(line)) {
+      flush();
+      fence = line.match(FENCE_REGEX)![1];
+      current.push(line);
+    } else if (fence !== undefined && /^\s*```\s*$/.test(line)) {
+      current.push(line);
+      fence = undefined;
+      flush();
+    } else if (fence === undefined && !line.trim()) {
+      flush();
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+  return blocks;
+};
+
+/**
+ * Splits markdown into parts no longer than the limit, at paragraph and code block boundaries.
+ * Longer paragraphs are split at line breaks or spaces, and longer code blocks
+ * at line breaks into several code blocks of the same language.
+ * @param markdown - The markdown text.
+ * @param limit - The maximum length of a part.
+ * @returns The parts of the text.
+ */
+export const splitMarkdown = (markdown: string, limit: number): string[] => {
+  const pieces = splitBlocks(markdown).flatMap((block) => {
+    if (block.length <= limit) return [block];
+    const fence = block.split("\n")[0].match(FENCE_REGEX);
+    if (!fence) return splitLongText(block, limit, true);
+
+    const opening = `\`\`\`${fence[1]}\n`;
+    const closing = "\n```";
+    const code = block
+      .split("\n")
+      .slice(1)
+      .join("\n")
+      .replace(/\n?\s*```\s*$/, "");
+    return splitLongText(
+      code,
+      Math.max(1, limit - opening.length - closing.length),
+      false
+    ).map((part) => `${opening}${part}${closing}`);
+  });
+
+  const parts: string[] = [];
+  for (const piece of pieces) {
+    const last = parts[parts.length - 1];
+    if (last !== undefined && last.length + 2 + piece.length <= limit) {
+      parts[parts.length - 1] = `${last}\n\n${piece}`;
+    } else {
+      parts.push(piece);
+    }
+  }
+  return parts.length ? parts : [""];
+};
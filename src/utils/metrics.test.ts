@@ -0,0 +1,53 @@
+import { InMemoryMetrics } from "../services/metrics/InMemoryMetrics";
+import { measure, recordTokenUsage } from "./metrics";
+
+describe("measure", () => {
+  it("records the duration and nests the spans of a stage", async () => {
+    const metrics = new InMemoryMetrics();
+
+    const result = await measure(metrics, "bot.message", {}, () =>
+      measure(metrics, "bot.prompt", { command: "ask" }, async () => "answer")
+    );
+
+    expect(result).toBe("answer");
+    expect(metrics.getHistogram("bot.prompt.duration")).toHaveLength(1);
+    expect(metrics.getHistogram("bot.message.duration")).toHaveLength(1);
+    expect(metrics.spans.map(({ name, parent }) => [name, parent])).toEqual([
+      ["bot.prompt", "bot.message"],
+      ["bot.message", undefined],
+    ]);
+  });
+
+  it("counts the errors of a stage and rethrows them", async () => {
+    const metrics = new InMemoryMetrics();
+    const error = new Error("send failed");
+
+    await expect(
+      measure(metrics, "bot.send", { streaming: false }, async () => {
+        throw error;
+      })
+    ).rejects.toBe(error);
+
+    expect(metrics.getCounter("bot.send.errors", { streaming: false })).toBe(1);
+    expect(metrics.getHistogram("bot.send.duration")).toHaveLength(1);
+    expect(metrics.spans[0].error).toBe(error);
+  });
+});
+
+describe("recordTokenUsage", () => {
+  it("splits the tokens by type", () => {
+    const metrics = new InMemoryMetrics();
+
+    recordTokenUsage(
+      metrics,
+      { promptTokens: 120, completionTokens: 30 },
+      { provider: "openai" }
+    );
+    recordTokenUsage(metrics, undefined, { provider: "openai" });
+
+    expect(metrics.getCounter("prompt.tokens", { type: "prompt" })).toBe(120);
+    expect(metrics.getCounter("prompt.tokens", { type: "completion" })).toBe(
+      30
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { TokenUsage } from "../managers/ConversationTurn";
+import {
+  MetricAttributes,
+  MetricsInterface,
+  SpanInterface,
+} from "../services/metrics/MetricsInterface";
+
+/**
+ * Measures a stage of the message pipeline: runs it in a span, records its duration
+ * in the "<name>.duration" histogram in milliseconds and counts its failures in the "<name>.errors" counter.
+ * @param metrics - The metrics to record to.
+ * @param name - The name of the stage, e.g. "bot.prompt".
+ * @param attributes - The attributes of the span and the measurements.
+ * @param fn - The measured stage.
+ * @returns A promise that resolves to the result of the stage.
+ */
+export const measure = async <T>(
+  metrics: MetricsInterface,
+  name: string,
+  attributes: MetricAttributes,
+  fn: (span: SpanInterface) => Promise<T>
+): Promise<T> => {
+  const start = Date.now();
+  try {
+    return await metrics.trace(name, attributes, fn);
+  } catch (err) {
+    metrics.increment(`${name}.errors`, 1, attributes);
+    throw err;
+  } finally {
+    metrics.record(`${name}.duration`, Date.now() - start, attributes);
+  }
+};
+
+/**
+ * Counts the tokens of a model call in the "prompt.tokens" counter, split by the "type" attribute.
+ * @param metrics - The metrics to record to.
+ * @param usage - The token usage of the call, if reported.
+ * @param attributes - The attributes of the call, e.g. the provider and the model.
+ */
+export const recordTokenUsage = (
+  metrics: MetricsInterface,
+  usage: TokenUsage | undefined,
+  attributes: MetricAttributes
+) => {
+  if (!usage) return;
+  metrics.increment("prompt.tokens", usage.promptTokens, {
+    ...attributes,
+    type: "prompt",
+  });
+  metrics.increment("prompt.tokens", usage.completionTokens, {
+    ...attributes,
+    type: "completion",
+  });
+};
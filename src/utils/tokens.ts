@@ -0,0 +1,25 @@
+/**
+ * The average number of characters per token for English text with GPT and Gemini tokenizers.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * The number of tokens every message adds for its role and formatting.
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimates the number of tokens in a text without loading a tokenizer.
+ * @param text - The text to estimate.
+ * @returns The estimated number of tokens.
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Estimates the number of tokens a message takes in a prompt.
+ * @param text - The content of the message.
+ * @returns The estimated number of tokens including the message overhead.
+ */
+export const estimateMessageTokens = (text: string): number =>
+  estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS;
@@ -0,0 +1,18 @@
+/**
+ * Checks whether a Telegram user is in a configured list of users.
+ * @param users - The user IDs or usernames, with or without the leading "@".
+ * @param userId - The ID of the user.
+ * @param username - The Telegram username of the user. Never pass the first name as a fallback,
+ * a user without a username could set it to a listed username.
+ * @returns True if the user is listed.
+ */
+export const isListedUser = (
+  users: string[],
+  userId: number | undefined,
+  username: string | undefined
+): boolean =>
+  users.some(
+    (user) =>
+      (userId !== undefined && user === String(userId)) ||
+      (!!username && user.replace(/^@/, "") === username)
+  );
@@ -0,0 +1,47 @@
+import TelegramBot from "node-telegram-bot-api";
+import {
+  SECRET_TOKEN_HEADER,
+  getSecretTokenHeader,
+  isValidSecretToken,
+  registerWebhook,
+} from "./webhook";
+
+describe("getSecretTokenHeader", () => {
+  it("reads the header in any letter case", () => {
+    expect(
+      getSecretTokenHeader({ "X-Telegram-Bot-Api-Secret-Token": "secret" })
+    ).toBe("secret");
+    expect(getSecretTokenHeader({ [SECRET_TOKEN_HEADER]: ["first"] })).toBe(
+      "first"
+    );
+    expect(getSecretTokenHeader(null)).toBeUndefined();
+  });
+});
+
+describe("isValidSecretToken", () => {
+  it("accepts every request when no secret token is set", () => {
+    expect(isValidSecretToken(undefined, undefined)).toBe(true);
+  });
+
+  it("accepts only the matching secret token", () => {
+    expect(isValidSecretToken("secret", "secret")).toBe(true);
+    expect(isValidSecretToken("secret", "secret2")).toBe(false);
+    expect(isValidSecretToken("secret", "")).toBe(false);
+    expect(isValidSecretToken("secret", undefined)).toBe(false);
+  });
+});
+
+describe("registerWebhook", () => {
+  it("refuses a secret token Telegram does not accept", async () => {
+    const telegramBot = { setWebHook: jest.fn() };
+
+    await expect(
+      registerWebhook(
+        telegramBot as unknown as TelegramBot,
+        "https://example.com",
+        "not allowed!"
+      )
+    ).rejects.toThrow("Invalid secret token");
+    expect(telegramBot.setWebHook).not.toHaveBeenCalled();
+  });
+});
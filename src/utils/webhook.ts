@@ -0,0 +1,65 @@
+import { createHash, timingSafeEqual } from "crypto";
+import TelegramBot from "node-telegram-bot-api";
+import { UPDATE_TYPES } from "../core/UpdateDispatcher";
+import { FROM, TYPE, log } from "./logger";
+
+/**
+ * The header in which Telegram sends the secret token of the webhook.
+ */
+export const SECRET_TOKEN_HEADER = "x-telegram-bot-api-secret-token";
+
+/**
+ * Returns the secret token sent with a webhook request.
+ * @param headers - The request headers, with names in any letter case.
+ * @returns The secret token or undefined if the header is missing.
+ */
+export const getSecretTokenHeader = (
+  headers: Record<string, string | string[] | undefined> | null | undefined
+): string | undefined => {
+  const name = Object.keys(headers || {}).find(
+    (header) => header.toLowerCase() === SECRET_TOKEN_HEADER
+  );
+  const value = name ? headers![name] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Checks the secret token of a webhook request in constant time.
+ * Both tokens are hashed first, so the comparison does not leak the token length either.
+ * @param secretToken - The expected secret token. Every request is accepted when it is not set.
+ * @param receivedToken - The secret token sent with the request.
+ * @returns True if the request is authentic.
+ */
+export const isValidSecretToken = (
+  secretToken: string | undefined,
+  receivedToken: string | undefined
+): boolean => {
+  if (!secretToken) return true;
+  if (!receivedToken) return false;
+  const hash = (token: string) => createHash("sha256").update(token).digest();
+  return timingSafeEqual(hash(secretToken), hash(receivedToken));
+};
+
+/**
+ * Registers the webhook of the bot with a secret token, which Telegram sends
+ * in the X-Telegram-Bot-Api-Secret-Token header of every webhook request.
+ * @param telegramBot - The Telegram bot.
+ * @param url - The URL of the webhook.
+ * @param secretToken - The secret token, 1-256 characters of A-Z, a-z, 0-9, _ and -.
+ * @returns {Promise<void>} A promise that resolves when the webhook is registered.
+ * @throws {Error} Throws an error if the secret token is invalid or the registration fails.
+ */
+export const registerWebhook = async (
+  telegramBot: TelegramBot,
+  url: string,
+  secretToken: string
+): Promise<void> => {
+  if (!/^[A-Za-z0-9_-]{1,256}$/.test(secretToken)) {
+    throw new Error("Invalid secret token");
+  }
+  await telegramBot.setWebHook(url, {
+    secret_token: secretToken,
+    allowed_updates: UPDATE_TYPES,
+  });
+  log(FROM.SERVER, TYPE.SUCCESS, `Webhook registered at ${url}`);
+};